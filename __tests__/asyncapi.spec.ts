@@ -0,0 +1,176 @@
+/**
+ * @valianx/pubsub-lite - AsyncAPI Generation Tests
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { mkdtemp, readFile, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import type { PubSub } from '@google-cloud/pubsub';
+import { formatAsyncApi, generateAsyncApi } from '../src/asyncapi.js';
+import { runAsyncApiCli } from '../src/cli/asyncapi.js';
+import { defineEvent, eventRegistry } from '../src/events.js';
+import { createPublisher } from '../src/publisher.js';
+import { createConsumer } from '../src/consumer.js';
+import type { Codec } from '../src/types.js';
+
+const info = { title: 'orders-service', version: '1.0.0' };
+
+describe('AsyncAPI generation', () => {
+  let mockClient: PubSub;
+
+  beforeEach(() => {
+    eventRegistry.clear();
+    mockClient = {
+      topic: vi.fn().mockReturnValue({ publishMessage: vi.fn(), publisher: { settings: {} } }),
+      subscription: vi.fn().mockReturnValue({ on: vi.fn(), close: vi.fn() }),
+    } as any;
+  });
+
+  function registerOrderEndpoints() {
+    const OrderCreated = defineEvent({
+      name: 'order.created',
+      version: '1',
+      topic: 'orders',
+      description: 'An order was placed',
+      schema: { type: 'object', required: ['orderId'] },
+    });
+    createPublisher(mockClient, OrderCreated, { attributesDefaults: { source: 'orders-service' } });
+    createConsumer(mockClient, 'orders-audit-sub', { event: OrderCreated });
+    createConsumer(mockClient, 'legacy-sub');
+  }
+
+  it('should describe publishers and consumers as an AsyncAPI 3 document', () => {
+    registerOrderEndpoints();
+
+    const document = generateAsyncApi({ info }) as any;
+
+    expect(document.asyncapi).toBe('3.0.0');
+    expect(document.info).toEqual(info);
+    expect(document.channels.orders).toEqual({
+      address: 'orders',
+      messages: { 'order.created.v1': { $ref: '#/components/messages/order.created.v1' } },
+    });
+    expect(document.channels['legacy-sub'].address).toBe('legacy-sub');
+    expect(document.operations['orders.send']).toEqual({
+      action: 'send',
+      channel: { $ref: '#/channels/orders' },
+      messages: [{ $ref: '#/channels/orders/messages/order.created.v1' }],
+    });
+    expect(document.operations['orders-audit-sub.receive']).toMatchObject({
+      action: 'receive',
+      channel: { $ref: '#/channels/orders' },
+      'x-google-pubsub-subscription': 'orders-audit-sub',
+    });
+    expect(document.components.messages['order.created.v1']).toEqual({
+      name: 'order.created',
+      summary: 'An order was placed',
+      contentType: 'application/json',
+      headers: {
+        type: 'object',
+        properties: {
+          source: { type: 'string', const: 'orders-service' },
+          type: { type: 'string', const: 'order.created' },
+          version: { type: 'string', const: '1' },
+          contentType: { type: 'string', const: 'application/json' },
+        },
+      },
+      payload: { type: 'object', required: ['orderId'] },
+    });
+  });
+
+  it('should use AsyncAPI 2 publish/subscribe semantics', () => {
+    registerOrderEndpoints();
+
+    const document = generateAsyncApi({ info, asyncapi: '2.6.0' }) as any;
+
+    expect(document.asyncapi).toBe('2.6.0');
+    expect(document.operations).toBeUndefined();
+    expect(document.channels.orders).toEqual({
+      subscribe: { operationId: 'orders.send', message: { $ref: '#/components/messages/order.created.v1' } },
+      publish: {
+        operationId: 'orders.receive',
+        message: { $ref: '#/components/messages/order.created.v1' },
+        'x-google-pubsub-subscriptions': ['orders-audit-sub'],
+      },
+    });
+  });
+
+  it('should document codec schemas with their schema format', () => {
+    const avroSchema = { type: 'record', name: 'Payment', fields: [] };
+    const codec: Codec = {
+      contentType: 'application/avro',
+      encode: () => Buffer.alloc(0),
+      decode: () => ({}),
+      schema: { format: 'application/vnd.apache.avro;version=1.9.0', definition: avroSchema },
+    };
+    createPublisher(mockClient, 'payments', { codec });
+
+    const v3 = generateAsyncApi({ info }) as any;
+    const v2 = generateAsyncApi({ info, asyncapi: '2.6.0' }) as any;
+
+    expect(v3.components.messages['payments.message'].payload).toEqual({
+      schemaFormat: 'application/vnd.apache.avro;version=1.9.0',
+      schema: avroSchema,
+    });
+    expect(v2.components.messages['payments.message']).toMatchObject({
+      schemaFormat: 'application/vnd.apache.avro;version=1.9.0',
+      payload: avroSchema,
+    });
+  });
+
+  it('should render YAML with quoting where plain scalars would be misread', () => {
+    const yaml = formatAsyncApi({
+      asyncapi: '3.0.0',
+      info: { title: 'svc', version: '1.0.0' },
+      list: [{ $ref: '#/a' }, 'yes', 3],
+      empty: {},
+    });
+
+    expect(yaml).toBe(
+      [
+        'asyncapi: "3.0.0"',
+        'info:',
+        '  title: svc',
+        '  version: "1.0.0"',
+        'list:',
+        '  - "$ref": "#/a"',
+        '  - "yes"',
+        '  - 3',
+        'empty: {}',
+        '',
+      ].join('\n')
+    );
+  });
+
+  describe('runAsyncApiCli', () => {
+    it('should import modules and write the document', async () => {
+      const dir = await mkdtemp(join(tmpdir(), 'pubsub-lite-asyncapi-'));
+      await writeFile(join(dir, 'package.json'), JSON.stringify({ name: 'orders-service', version: '2.1.0' }));
+      await writeFile(join(dir, 'messaging.mjs'), 'globalThis.__asyncapiModuleLoaded = true;\n');
+      registerOrderEndpoints();
+
+      const exitCode = await runAsyncApiCli(['messaging.mjs', '--out', 'asyncapi.json'], dir);
+
+      expect(exitCode).toBe(0);
+      expect((globalThis as any).__asyncapiModuleLoaded).toBe(true);
+      const document = JSON.parse(await readFile(join(dir, 'asyncapi.json'), 'utf8'));
+      expect(document.info).toEqual({ title: 'orders-service', version: '2.1.0' });
+      expect(Object.keys(document.channels)).toEqual(['orders', 'legacy-sub']);
+      await rm(dir, { recursive: true, force: true });
+    });
+
+    it('should fail without modules or with unsupported options', async () => {
+      const log = vi.spyOn(console, 'log').mockImplementation(() => {});
+      const error = vi.spyOn(console, 'error').mockImplementation(() => {});
+
+      expect(await runAsyncApiCli([])).toBe(1);
+      expect(await runAsyncApiCli(['x.mjs', '--asyncapi', '1.0.0'])).toBe(1);
+      expect(await runAsyncApiCli(['--unknown'])).toBe(1);
+      expect(await runAsyncApiCli(['--help'])).toBe(0);
+
+      log.mockRestore();
+      error.mockRestore();
+    });
+  });
+});
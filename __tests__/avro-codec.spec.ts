@@ -0,0 +1,103 @@
+/**
+ * @valianx/pubsub-lite - Avro Codec Tests
+ */
+
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { mkdtemp, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { createAvroCodec } from '../src/schema/avro.js';
+import { PubSubLiteError } from '../src/errors.js';
+import { ErrorCodes } from '../src/types.js';
+
+const orderSchema = {
+  type: 'record',
+  name: 'Order',
+  namespace: 'orders.v1',
+  fields: [
+    { name: 'id', type: 'string' },
+    { name: 'amount', type: 'double' },
+    { name: 'coupon', type: ['null', 'string'], default: null },
+  ],
+};
+
+const order = { id: 'order-1', amount: 12.5, coupon: 'SAVE10' };
+
+describe('createAvroCodec', () => {
+  let dir: string;
+
+  beforeAll(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'pubsub-lite-avro-'));
+  });
+
+  afterAll(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it('should round-trip records in binary encoding', async () => {
+    const codec = await createAvroCodec({ schema: orderSchema });
+
+    const encoded = codec.encode(order);
+
+    expect(codec.contentType).toBe('application/avro');
+    expect(encoded.toString('utf8')).not.toContain('{');
+    expect(codec.decode(encoded)).toEqual(order);
+  });
+
+  it('should use Avro JSON encoding with wrapped unions', async () => {
+    const codec = await createAvroCodec({ schema: orderSchema, encoding: 'json' });
+
+    const encoded = codec.encode(order);
+
+    expect(codec.contentType).toBe('application/avro+json');
+    expect(JSON.parse(encoded.toString('utf8'))).toEqual({ ...order, coupon: { string: 'SAVE10' } });
+    expect(codec.decode(encoded)).toEqual(order);
+  });
+
+  it('should load the schema from an .avsc file', async () => {
+    const path = join(dir, 'order.avsc');
+    await writeFile(path, JSON.stringify(orderSchema));
+
+    const codec = await createAvroCodec({ schema: path, contentType: 'application/vnd.order+avro' });
+
+    expect(codec.contentType).toBe('application/vnd.order+avro');
+    expect(codec.decode(codec.encode(order))).toEqual(order);
+  });
+
+  it('should raise SCHEMA_ERROR naming mismatched fields on encode', async () => {
+    const codec = await createAvroCodec({ schema: orderSchema });
+
+    const encode = () => codec.encode({ id: 1, amount: 12.5 });
+
+    expect(encode).toThrow(PubSubLiteError);
+    expect(encode).toThrow(expect.objectContaining({ code: ErrorCodes.SCHEMA_ERROR, message: expect.stringMatching(/at: id$/) }));
+  });
+
+  it('should raise SCHEMA_ERROR for undeclared fields', async () => {
+    const codec = await createAvroCodec({ schema: orderSchema });
+
+    expect(() => codec.encode({ ...order, extra: true })).toThrow(
+      expect.objectContaining({ code: ErrorCodes.SCHEMA_ERROR })
+    );
+  });
+
+  it('should raise SCHEMA_ERROR for payloads written with another schema', async () => {
+    const codec = await createAvroCodec({ schema: orderSchema });
+
+    expect(() => codec.decode(Buffer.from([0x02]))).toThrow(
+      expect.objectContaining({ code: ErrorCodes.SCHEMA_ERROR })
+    );
+  });
+
+  it('should raise INVALID_CONFIG for a missing schema file', async () => {
+    await expect(createAvroCodec({ schema: join(dir, 'missing.avsc') })).rejects.toMatchObject({
+      code: ErrorCodes.INVALID_CONFIG,
+    });
+  });
+
+  it('should raise INVALID_CONFIG for an invalid schema', async () => {
+    await expect(createAvroCodec({ schema: { type: 'record', fields: 'nope' } })).rejects.toMatchObject({
+      code: ErrorCodes.INVALID_CONFIG,
+    });
+  });
+});
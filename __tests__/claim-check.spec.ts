@@ -0,0 +1,286 @@
+/**
+ * @valianx/pubsub-lite - Claim-Check Tests
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { mkdtemp, readdir, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import type { PubSub, Message } from '@google-cloud/pubsub';
+import { createPublisher } from '../src/publisher.js';
+import { createConsumer } from '../src/consumer.js';
+import { FileBlobStore } from '../src/blob/file-store.js';
+import { eventRegistry } from '../src/events.js';
+import { InMemoryIdempotencyStore } from '../src/idempotency/memory-store.js';
+import { byJsonPath, byPayloadHash } from '../src/idempotency/key-selectors.js';
+import { ErrorCodes } from '../src/types.js';
+import type { BlobStore, ConsumerOptions, PublisherOptions } from '../src/types.js';
+
+const largeExport = { rows: Array.from({ length: 100 }, (_, index) => ({ id: index, value: 'x'.repeat(20) })) };
+
+describe('Claim-Check', () => {
+  let dir: string;
+  let store: FileBlobStore;
+  let mockClient: PubSub;
+  let mockPublishMessage: ReturnType<typeof vi.fn>;
+  let mockOn: ReturnType<typeof vi.fn>;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'pubsub-lite-'));
+    store = new FileBlobStore({ directory: dir });
+    eventRegistry.clear();
+    mockPublishMessage = vi.fn().mockResolvedValue('message-id-123');
+    mockOn = vi.fn();
+    mockClient = {
+      topic: vi.fn().mockReturnValue({ publishMessage: mockPublishMessage, publisher: { settings: {} } }),
+      subscription: vi.fn().mockReturnValue({ on: mockOn, removeListener: vi.fn(), close: vi.fn() }),
+    } as any;
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  async function publishOne(data: unknown, options: PublisherOptions = { claimCheck: { store, threshold: 1024 } }) {
+    await createPublisher(mockClient, 'exports', options).publish(data);
+    return { id: 'message-1', ...mockPublishMessage.mock.calls.at(-1)![0], ack: vi.fn(), nack: vi.fn() } as Message;
+  }
+
+  async function consumeOne(
+    message: Message,
+    options: ConsumerOptions,
+    handler: (...args: any[]) => unknown = (_data: unknown, received: Message) => received.ack()
+  ) {
+    const errorHandler = vi.fn();
+    const handlerSpy = vi.fn(handler);
+    const consumer = createConsumer(mockClient, 'exports-sub', options);
+    consumer.on('message', handlerSpy);
+    consumer.on('error', errorHandler);
+    consumer.start();
+    await mockOn.mock.calls.find(([name]) => name === 'message')![1](message);
+    return { handler: handlerSpy, errorHandler };
+  }
+
+  it('should offload large payloads and publish only the reference', async () => {
+    const message = await publishOne(largeExport);
+
+    expect(message.data).toHaveLength(0);
+    expect(message.attributes).toMatchObject({ contentType: 'application/json', claimCheck: expect.any(String) });
+    expect(JSON.parse((await store.get(message.attributes.claimCheck!)).toString())).toEqual(largeExport);
+  });
+
+  it('should publish payloads below the threshold inline', async () => {
+    const message = await publishOne({ id: 1 });
+
+    expect(message.attributes).not.toHaveProperty('claimCheck');
+    expect(await readdir(dir)).toEqual([]);
+  });
+
+  it('should fetch and decode claim-checked payloads, compressed or not', async () => {
+    const compressed = await publishOne(largeExport, {
+      compression: { threshold: 0 },
+      claimCheck: { store, threshold: 0 },
+    });
+    expect(compressed.attributes).toMatchObject({ contentEncoding: 'gzip' });
+
+    const { handler } = await consumeOne(compressed, { claimCheck: { store } });
+
+    expect(handler).toHaveBeenCalledWith(largeExport, compressed);
+  });
+
+  it('should store the payload once across publish retries', async () => {
+    mockPublishMessage.mockRejectedValueOnce(new Error('unavailable'));
+    const put = vi.spyOn(store, 'put');
+
+    await publishOne(largeExport, { claimCheck: { store, threshold: 0 }, retry: { initialDelayMs: 1, maxAttempts: 2 } });
+
+    expect(put).toHaveBeenCalledTimes(1);
+    expect(await readdir(dir)).toHaveLength(1);
+  });
+
+  it('should delete the offloaded payload when the publish error is permanent', async () => {
+    const error = Object.assign(new Error('topic not found'), { code: 5 });
+    mockPublishMessage.mockRejectedValue(error);
+    const publisher = createPublisher(mockClient, 'exports', {
+      claimCheck: { store, threshold: 0 },
+      retry: { initialDelayMs: 1, maxAttempts: 2 },
+    });
+
+    await expect(publisher.publish(largeExport)).rejects.toBe(error);
+    expect(mockPublishMessage).toHaveBeenCalledTimes(1);
+    expect(await readdir(dir)).toEqual([]);
+  });
+
+  it('should keep the offloaded payload when the retries run out', async () => {
+    // A timed-out publish may still have been accepted, so consumers could need the payload
+    const error = Object.assign(new Error('deadline exceeded'), { code: 4 });
+    mockPublishMessage.mockRejectedValue(error);
+    const publisher = createPublisher(mockClient, 'exports', {
+      claimCheck: { store, threshold: 0 },
+      retry: { initialDelayMs: 1, maxAttempts: 2 },
+    });
+
+    await expect(publisher.publish(largeExport)).rejects.toBe(error);
+    expect(mockPublishMessage).toHaveBeenCalledTimes(2);
+    expect(await readdir(dir)).toHaveLength(1);
+  });
+
+  it('should still throw the publish error when the offloaded payload cannot be deleted', async () => {
+    const error = Object.assign(new Error('topic not found'), { code: 5 });
+    mockPublishMessage.mockRejectedValue(error);
+    vi.spyOn(store, 'delete').mockRejectedValue(new Error('store offline'));
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+    const publisher = createPublisher(mockClient, 'exports', {
+      claimCheck: { store, threshold: 0 },
+      retry: { initialDelayMs: 1, maxAttempts: 1 },
+    });
+
+    await expect(publisher.publish(largeExport)).rejects.toBe(error);
+    expect(warn).toHaveBeenCalledWith(expect.stringContaining('Failed to delete offloaded payload'), expect.any(Error));
+    warn.mockRestore();
+  });
+
+  it('should fail with BLOB_STORE_ERROR when the store rejects the payload', async () => {
+    const failing: BlobStore = { put: vi.fn().mockRejectedValue(new Error('disk full')), get: vi.fn(), delete: vi.fn() };
+    const publisher = createPublisher(mockClient, 'exports', {
+      claimCheck: { store: failing, threshold: 0 },
+      retry: { initialDelayMs: 1, maxAttempts: 1 },
+    });
+
+    await expect(publisher.publish(largeExport)).rejects.toMatchObject({ code: ErrorCodes.BLOB_STORE_ERROR });
+    expect(mockPublishMessage).not.toHaveBeenCalled();
+  });
+
+  it.each([
+    ['byPayloadHash', byPayloadHash()],
+    ['byJsonPath', byJsonPath('orderId', { fallback: () => 'fallback' })],
+  ])('should key claim-checked messages on their fetched payload with %s', async (_name, idempotencyKeySelector) => {
+    const options = { claimCheck: { store, threshold: 0 } };
+    const orderA = await publishOne({ orderId: 'A', ...largeExport }, options);
+    const orderB = { ...(await publishOne({ orderId: 'B', ...largeExport }, options)), id: 'message-2' } as Message;
+    const republishedA = { ...(await publishOne({ orderId: 'A', ...largeExport }, options)), id: 'message-3' } as Message;
+    expect(orderA.data).toHaveLength(0);
+    expect(orderB.data).toHaveLength(0);
+
+    const handler = vi.fn((_data: unknown, message: Message) => message.ack());
+    const consumer = createConsumer(mockClient, 'exports-sub', {
+      claimCheck: { store },
+      idempotencyEnabled: true,
+      idempotencyStore: new InMemoryIdempotencyStore(),
+      idempotencyKeySelector,
+    });
+    consumer.on('message', handler);
+    consumer.start();
+    const listener = mockOn.mock.calls.find(([name]) => name === 'message')![1];
+    for (const message of [orderA, orderB, republishedA]) {
+      await listener(message);
+    }
+
+    expect(handler.mock.calls.map(([data]) => (data as { orderId: string }).orderId)).toEqual(['A', 'B']);
+    expect(republishedA.ack).toHaveBeenCalled();
+  });
+
+  it('should delete the payload after the handler acks when enabled', async () => {
+    const message = await publishOne(largeExport);
+    const ack = message.ack;
+
+    await consumeOne(message, { claimCheck: { store, deleteAfterAck: true } });
+    await vi.waitFor(async () => expect(await readdir(dir)).toEqual([]));
+
+    expect(ack).toHaveBeenCalled();
+  });
+
+  it('should keep the payload when the handler nacks or cleanup is disabled', async () => {
+    const nacked = await publishOne(largeExport);
+    const kept = await publishOne(largeExport);
+
+    await consumeOne(nacked, { claimCheck: { store, deleteAfterAck: true } }, (_data, received) => received.nack());
+    await consumeOne(kept, { claimCheck: { store } });
+
+    expect(await readdir(dir)).toHaveLength(2);
+  });
+
+  it('should keep the payload of messages rejected before the handler', async () => {
+    const message = await publishOne(largeExport);
+
+    const { handler } = await consumeOne(message, {
+      claimCheck: { store, deleteAfterAck: true },
+      validator: { type: 'array' },
+      invalidMessagePolicy: 'ack',
+    });
+
+    expect(handler).not.toHaveBeenCalled();
+    expect(message.ack).toHaveBeenCalled();
+    expect(await readdir(dir)).toHaveLength(1);
+  });
+
+  it('should nack with BLOB_STORE_ERROR when the payload cannot be fetched', async () => {
+    const message = await publishOne(largeExport);
+    await store.delete(message.attributes.claimCheck!);
+
+    const { handler, errorHandler } = await consumeOne(message, { claimCheck: { store } });
+
+    expect(handler).not.toHaveBeenCalled();
+    expect(message.nack).toHaveBeenCalled();
+    expect(errorHandler).toHaveBeenCalledWith(
+      expect.objectContaining({ code: ErrorCodes.BLOB_STORE_ERROR }),
+      expect.objectContaining({ phase: 'receive' })
+    );
+  });
+
+  it('should ack redeliveries of a message whose payload was deleted after ack', async () => {
+    const delivery = await publishOne(largeExport);
+    const redelivery = { ...delivery, ack: vi.fn(), nack: vi.fn() } as Message;
+    const options = {
+      claimCheck: { store, deleteAfterAck: true },
+      idempotencyEnabled: true,
+      idempotencyStore: new InMemoryIdempotencyStore(),
+    };
+
+    await consumeOne(delivery, options);
+    await vi.waitFor(async () => expect(await readdir(dir)).toEqual([]));
+    const { handler, errorHandler } = await consumeOne(redelivery, options);
+
+    expect(handler).not.toHaveBeenCalled();
+    expect(redelivery.ack).toHaveBeenCalled();
+    expect(redelivery.nack).not.toHaveBeenCalled();
+    expect(errorHandler).not.toHaveBeenCalled();
+  });
+
+  it('should keep the payload when its deletion cannot be recorded', async () => {
+    const message = await publishOne(largeExport);
+    const { ack } = message;
+    const idempotencyStore = new InMemoryIdempotencyStore();
+    const markCompleted = vi.spyOn(idempotencyStore, 'markCompleted');
+    markCompleted.mockImplementation(async (key) => {
+      if (key.includes(message.attributes.claimCheck!)) throw new Error('store offline');
+    });
+
+    const { errorHandler } = await consumeOne(message, {
+      claimCheck: { store, deleteAfterAck: true },
+      idempotencyEnabled: true,
+      idempotencyStore,
+    });
+
+    await vi.waitFor(() =>
+      expect(errorHandler).toHaveBeenCalledWith(
+        expect.objectContaining({ code: ErrorCodes.IDEMPOTENCY_ERROR }),
+        expect.objectContaining({ phase: 'idempotency' })
+      )
+    );
+    expect(ack).toHaveBeenCalled();
+    expect(await readdir(dir)).toHaveLength(1);
+  });
+
+  it('should nack claim-checked messages when no store is configured', async () => {
+    const message = await publishOne(largeExport);
+
+    const { errorHandler } = await consumeOne(message, {});
+
+    expect(message.nack).toHaveBeenCalled();
+    expect(errorHandler).toHaveBeenCalledWith(
+      expect.objectContaining({ code: ErrorCodes.PARSE_ERROR }),
+      expect.anything()
+    );
+  });
+});
@@ -0,0 +1,292 @@
+/**
+ * @valianx/pubsub-lite - CloudEvents Tests
+ */
+
+import { describe, it, expect, expectTypeOf, vi, beforeEach } from 'vitest';
+import type { PubSub, Message } from '@google-cloud/pubsub';
+import { createPublisher } from '../src/publisher.js';
+import { createConsumer } from '../src/consumer.js';
+import { encodeCloudEvent, parseCloudEvent } from '../src/cloudevents.js';
+import { binaryCodec, jsonCodec, textCodec } from '../src/codecs.js';
+import { defineEvent, eventRegistry } from '../src/events.js';
+import { InMemoryIdempotencyStore } from '../src/idempotency/memory-store.js';
+import { byPayloadHash } from '../src/idempotency/key-selectors.js';
+import { ErrorCodes } from '../src/types.js';
+import type { CloudEvent, CloudEventsMode, ConsumerOptions, PublisherOptions } from '../src/types.js';
+import { PubSubLiteError } from '../src/errors.js';
+
+interface OrderCreated {
+  orderId: string;
+}
+
+describe('CloudEvents', () => {
+  let mockClient: PubSub;
+  let mockPublishMessage: ReturnType<typeof vi.fn>;
+  let mockOn: ReturnType<typeof vi.fn>;
+
+  beforeEach(() => {
+    eventRegistry.clear();
+    mockPublishMessage = vi.fn().mockResolvedValue('message-id-123');
+    mockOn = vi.fn();
+    mockClient = {
+      topic: vi.fn().mockReturnValue({ publishMessage: mockPublishMessage, publisher: { settings: {} } }),
+      subscription: vi.fn().mockReturnValue({ on: mockOn, removeListener: vi.fn(), close: vi.fn() }),
+    } as any;
+  });
+
+  function toMessage(published: { data: Buffer; attributes: Record<string, string> }): Message {
+    return { id: 'message-1', ...published, ack: vi.fn(), nack: vi.fn() } as any;
+  }
+
+  async function publishOne<T>(data: T, options: PublisherOptions<T>): Promise<Message> {
+    const publisher = createPublisher<T>(mockClient, 'orders', options);
+    await publisher.publish(data);
+    return toMessage(mockPublishMessage.mock.calls.at(-1)![0]);
+  }
+
+  async function consumeOne<T>(message: Message, options: ConsumerOptions<T> = {}) {
+    const handler = vi.fn();
+    const errorHandler = vi.fn();
+    const consumer = createConsumer<T>(mockClient, 'orders-sub', { cloudEvents: true, ...options });
+    consumer.on('message', handler);
+    consumer.on('error', errorHandler);
+    consumer.start();
+    const listener = mockOn.mock.calls.filter(([name]) => name === 'message').at(-1)![1];
+    await listener(message);
+    return { handler, errorHandler };
+  }
+
+  describe.each<CloudEventsMode>(['binary', 'structured'])('%s mode round trip', (mode) => {
+    it('should deliver the published event to the handler', async () => {
+      const message = await publishOne<OrderCreated>(
+        { orderId: 'o-1' },
+        { attributesDefaults: { source: '/orders-service' }, cloudEvents: { mode, type: 'order.created', subject: 'o-1' } }
+      );
+
+      const { handler } = await consumeOne<CloudEvent<OrderCreated>>(message);
+
+      const [event] = handler.mock.calls[0]!;
+      expect(event).toEqual({
+        specversion: '1.0',
+        id: expect.stringMatching(/^[0-9a-f-]{36}$/),
+        source: '/orders-service',
+        type: 'order.created',
+        subject: 'o-1',
+        time: expect.any(String),
+        datacontenttype: 'application/json',
+        data: { orderId: 'o-1' },
+      });
+      expect(new Date(event.time).toISOString()).toBe(event.time);
+    });
+
+    it('should round trip non-JSON payloads', async () => {
+      const bytes = Buffer.from([0, 1, 2, 255]);
+      const text = await publishOne('hello', { codec: textCodec, cloudEvents: { mode, source: 's', type: 't' } });
+      const binary = await publishOne(bytes, { codec: binaryCodec, cloudEvents: { mode, source: 's', type: 't' } });
+
+      const { handler: textHandler } = await consumeOne(text);
+      const { handler: binaryHandler } = await consumeOne(binary);
+
+      expect(textHandler.mock.calls[0]![0].data).toBe('hello');
+      expect(binaryHandler.mock.calls[0]![0].data).toEqual(bytes);
+    });
+
+    it('should validate the event data', async () => {
+      const message = await publishOne({ sku: 'x' }, { cloudEvents: { mode, source: 's', type: 't' } });
+
+      const { handler, errorHandler } = await consumeOne(message, { validator: { type: 'object', required: ['orderId'] } });
+
+      expect(handler).not.toHaveBeenCalled();
+      expect(message.nack).toHaveBeenCalled();
+      expect(errorHandler).toHaveBeenCalledWith(expect.anything(), expect.objectContaining({ phase: 'validate' }));
+    });
+  });
+
+  describe('Publisher', () => {
+    it('should write binary mode context as ce-* attributes', async () => {
+      const message = await publishOne({ orderId: 'o-1' }, {
+        attributesDefaults: { source: '/orders-service', type: 'order.created' },
+        cloudEvents: {},
+      });
+
+      expect(message.attributes).toEqual({
+        source: '/orders-service',
+        type: 'order.created',
+        contentType: 'application/json',
+        'content-type': 'application/json',
+        'ce-specversion': '1.0',
+        'ce-id': expect.any(String),
+        'ce-source': '/orders-service',
+        'ce-type': 'order.created',
+        'ce-time': expect.any(String),
+      });
+      expect(JSON.parse(message.data.toString())).toEqual({ orderId: 'o-1' });
+    });
+
+    it('should write structured mode as a JSON envelope', async () => {
+      const message = await publishOne({ orderId: 'o-1' }, {
+        cloudEvents: { mode: 'structured', source: 's', type: 'order.created', dataschema: 'https://example.com/order' },
+      });
+
+      expect(message.attributes).toMatchObject({
+        contentType: 'application/cloudevents+json',
+        'content-type': 'application/cloudevents+json',
+      });
+      expect(JSON.parse(message.data.toString())).toMatchObject({
+        specversion: '1.0',
+        type: 'order.created',
+        dataschema: 'https://example.com/order',
+        datacontenttype: 'application/json',
+        data: { orderId: 'o-1' },
+      });
+    });
+
+    it('should take the type from the event definition and prefer per-message attributes', async () => {
+      const event = defineEvent<OrderCreated>({ name: 'order.created', version: '1', topic: 'orders' });
+      const publisher = createPublisher(mockClient, event, {
+        attributesDefaults: { source: 'default' },
+        cloudEvents: {},
+      });
+
+      await publisher.publish({ orderId: 'o-1' }, { source: 'override' });
+
+      expect(mockPublishMessage.mock.calls[0]![0].attributes).toMatchObject({
+        'ce-type': 'order.created',
+        'ce-source': 'override',
+      });
+    });
+
+    it('should keep the event id across retries', async () => {
+      mockPublishMessage.mockRejectedValueOnce(new Error('unavailable'));
+      const publisher = createPublisher(mockClient, 'orders', {
+        cloudEvents: { source: 's', type: 't' },
+        retry: { initialDelayMs: 1, maxAttempts: 2 },
+      });
+
+      await publisher.publish({ orderId: 'o-1' });
+
+      const [first, second] = mockPublishMessage.mock.calls.map(([request]) => request.attributes['ce-id']);
+      expect(first).toBe(second);
+    });
+
+    it('should reject events without a source or type without publishing', async () => {
+      const onPublishFailure = vi.fn();
+      const publisher = createPublisher(mockClient, 'orders', { cloudEvents: { type: 't' }, hooks: { onPublishFailure } });
+
+      await expect(publisher.publish({})).rejects.toMatchObject({ code: ErrorCodes.INVALID_CONFIG });
+      expect(mockPublishMessage).not.toHaveBeenCalled();
+      expect(onPublishFailure).toHaveBeenCalledWith(expect.any(PubSubLiteError), {}, 0, false);
+    });
+  });
+
+  describe('Consumer', () => {
+    it('should parse binary events from other producers, including extensions', async () => {
+      const message = toMessage({
+        data: Buffer.from('{"orderId":"o-1"}'),
+        attributes: {
+          'ce-specversion': '1.0',
+          'ce-id': 'abc',
+          'ce-source': '//billing',
+          'ce-type': 'order.created',
+          'ce-traceparent': '00-trace',
+          'content-type': 'application/json; charset=utf-8',
+        },
+      });
+
+      const { handler } = await consumeOne(message);
+
+      expect(handler).toHaveBeenCalledWith({
+        specversion: '1.0',
+        id: 'abc',
+        source: '//billing',
+        type: 'order.created',
+        traceparent: '00-trace',
+        datacontenttype: 'application/json; charset=utf-8',
+        data: { orderId: 'o-1' },
+      }, message);
+    });
+
+    it('should type the handler with the CloudEvent payload', () => {
+      const consumer = createConsumer<CloudEvent<OrderCreated>>(mockClient, 'orders-sub', { cloudEvents: true });
+
+      consumer.on('message', (event) => {
+        expectTypeOf(event.data).toEqualTypeOf<OrderCreated>();
+      });
+    });
+
+    it('should reject events of another type than the declared event', async () => {
+      const event = defineEvent({ name: 'order.created', version: '1', topic: 'orders' });
+      const message = await publishOne({ orderId: 'o-1' }, {
+        cloudEvents: { mode: 'structured', source: 's', type: 'order.cancelled' },
+      });
+
+      const { handler } = await consumeOne(message, { event });
+
+      expect(handler).not.toHaveBeenCalled();
+      expect(message.nack).toHaveBeenCalled();
+    });
+
+    it('should key idempotency on the event data rather than the envelope', async () => {
+      const options = { cloudEvents: { mode: 'structured', source: 's', type: 't' } } as const;
+      const first = await publishOne({ orderId: 'o-1' }, options);
+      const second = { ...(await publishOne({ orderId: 'o-1' }, options)), id: 'message-2' } as Message;
+      const handler = vi.fn((_event: unknown, message: Message) => message.ack());
+      const consumer = createConsumer(mockClient, 'orders-sub', {
+        cloudEvents: true,
+        idempotencyEnabled: true,
+        idempotencyStore: new InMemoryIdempotencyStore(),
+        idempotencyKeySelector: byPayloadHash(),
+      });
+      consumer.on('message', handler);
+      consumer.start();
+      const listener = mockOn.mock.calls.filter(([name]) => name === 'message').at(-1)![1];
+
+      await listener(first);
+      await listener(second);
+
+      expect(handler).toHaveBeenCalledTimes(1);
+      expect(second.ack).toHaveBeenCalled();
+    });
+
+    it('should nack messages that are not CloudEvents with a parse error', async () => {
+      const message = toMessage({ data: Buffer.from('{}'), attributes: {} });
+
+      const { handler, errorHandler } = await consumeOne(message);
+
+      expect(handler).not.toHaveBeenCalled();
+      expect(message.nack).toHaveBeenCalled();
+      expect(errorHandler).toHaveBeenCalledWith(
+        expect.objectContaining({ code: ErrorCodes.PARSE_ERROR, message: 'Message is not a CloudEvent' }),
+        expect.objectContaining({ phase: 'parse' })
+      );
+    });
+  });
+
+  describe('encodeCloudEvent / parseCloudEvent', () => {
+    const context = { specversion: '1.0', id: '1', source: 's', type: 't' };
+
+    it('should parse what it encodes with the built-in decoders', () => {
+      for (const mode of ['binary', 'structured'] as const) {
+        const encoded = encodeCloudEvent(context, { a: 1 }, jsonCodec, mode);
+        expect(parseCloudEvent(toMessage(encoded))).toMatchObject({ ...context, data: { a: 1 } });
+      }
+    });
+
+    it('should report missing required attributes', () => {
+      const message = toMessage({
+        data: Buffer.from(JSON.stringify({ specversion: '1.0', id: '1' })),
+        attributes: { 'content-type': 'application/cloudevents+json' },
+      });
+
+      expect(() => parseCloudEvent(message)).toThrow('CloudEvent is missing source, type');
+    });
+
+    it('should reject structured events that are not JSON objects', () => {
+      const message = toMessage({ data: Buffer.from('[1]'), attributes: { contentType: 'application/cloudevents+json' } });
+
+      expect(() => parseCloudEvent(message)).toThrow(
+        expect.objectContaining({ code: ErrorCodes.PARSE_ERROR, message: 'Structured CloudEvent must be a JSON object' })
+      );
+    });
+  });
+});
@@ -0,0 +1,48 @@
+/**
+ * @valianx/pubsub-lite - Codec Tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import { jsonCodec, textCodec, binaryCodec, normalizeContentType } from '../src/codecs.js';
+
+describe('Codecs', () => {
+  describe('jsonCodec', () => {
+    it('should round-trip JSON values', () => {
+      const data = { id: 1, tags: ['a'], nested: { ok: true } };
+
+      expect(jsonCodec.decode(jsonCodec.encode(data))).toEqual(data);
+    });
+
+    it('should reject values JSON cannot represent', () => {
+      expect(() => jsonCodec.encode(undefined)).toThrow(TypeError);
+    });
+
+    it('should throw on invalid JSON', () => {
+      expect(() => jsonCodec.decode(Buffer.from('not json'))).toThrow(SyntaxError);
+    });
+  });
+
+  describe('textCodec', () => {
+    it('should round-trip UTF-8 strings', () => {
+      expect(textCodec.decode(textCodec.encode('héllo'))).toBe('héllo');
+    });
+  });
+
+  describe('binaryCodec', () => {
+    it('should pass bytes through unchanged', () => {
+      const bytes = new Uint8Array([0, 255, 7]);
+
+      expect(binaryCodec.decode(binaryCodec.encode(bytes))).toEqual(Buffer.from(bytes));
+    });
+
+    it('should reject non-binary payloads', () => {
+      expect(() => binaryCodec.encode('text' as any)).toThrow(TypeError);
+    });
+  });
+
+  describe('normalizeContentType', () => {
+    it('should drop parameters and lower-case the media type', () => {
+      expect(normalizeContentType(' Application/JSON ; charset=utf-8')).toBe('application/json');
+    });
+  });
+});
@@ -0,0 +1,168 @@
+/**
+ * @valianx/pubsub-lite - Compression Tests
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import type { PubSub, Message } from '@google-cloud/pubsub';
+import { compressPayload, decompressPayload } from '../src/compression.js';
+import { createPublisher } from '../src/publisher.js';
+import { createConsumer } from '../src/consumer.js';
+import { eventRegistry } from '../src/events.js';
+import { ErrorCodes } from '../src/types.js';
+import type { CompressionAlgorithm, ConsumerOptions, PublisherOptions } from '../src/types.js';
+
+const document = {
+  items: Array.from({ length: 200 }, (_, index) => ({ sku: `SKU-${index}`, description: 'A repetitive product' })),
+};
+
+describe('Compression', () => {
+  describe('compressPayload / decompressPayload', () => {
+    const data = Buffer.from(JSON.stringify(document));
+
+    it.each<[CompressionAlgorithm, string]>([
+      ['gzip', 'gzip'],
+      ['brotli', 'br'],
+      ['deflate', 'deflate'],
+    ])('should round trip %s with the %s content encoding', async (algorithm, contentEncoding) => {
+      const result = await compressPayload(data, { algorithm });
+
+      expect(result).toMatchObject({
+        contentEncoding,
+        stats: { algorithm, originalBytes: data.length, compressedBytes: result!.data.length },
+      });
+      expect(result!.stats.ratio).toBeGreaterThan(1);
+      expect(await decompressPayload(result!.data, contentEncoding)).toEqual(data);
+    });
+
+    it('should skip payloads below the threshold or that do not shrink', async () => {
+      expect(await compressPayload(Buffer.from('{"small":true}'), {})).toBeUndefined();
+      expect(await compressPayload(data, { threshold: data.length + 1 })).toBeUndefined();
+      expect(await compressPayload(Buffer.from([0x8f, 0x12, 0xa3]), { threshold: 0 })).toBeUndefined();
+    });
+
+    it('should pass through payloads without an encoding', async () => {
+      expect(await decompressPayload(data, undefined)).toBe(data);
+      expect(await decompressPayload(data, 'identity')).toBe(data);
+    });
+
+    it.each(['gzip', 'deflate', 'br'])('should refuse %s payloads that expand beyond the limit', async (encoding) => {
+      const algorithm = encoding === 'br' ? 'brotli' : (encoding as CompressionAlgorithm);
+      // 1MB of zeros compresses to about a kilobyte
+      const bomb = (await compressPayload(Buffer.alloc(1024 * 1024), { algorithm }))!.data;
+
+      await expect(decompressPayload(bomb, encoding, 64 * 1024)).rejects.toMatchObject({
+        code: ErrorCodes.PARSE_ERROR,
+        message: `Decompressed '${encoding}' payload exceeds 65536 bytes`,
+      });
+      expect(await decompressPayload(bomb, encoding, 1024 * 1024)).toHaveLength(1024 * 1024);
+    });
+
+    it('should raise PARSE_ERROR for unknown encodings and corrupt data', async () => {
+      await expect(decompressPayload(data, 'zstd')).rejects.toMatchObject({
+        code: ErrorCodes.PARSE_ERROR,
+        message: "Unsupported content encoding 'zstd'",
+      });
+      await expect(decompressPayload(data, 'gzip')).rejects.toMatchObject({ code: ErrorCodes.PARSE_ERROR });
+    });
+  });
+
+  describe('Publisher and Consumer', () => {
+    let mockClient: PubSub;
+    let mockPublishMessage: ReturnType<typeof vi.fn>;
+    let mockOn: ReturnType<typeof vi.fn>;
+
+    beforeEach(() => {
+      eventRegistry.clear();
+      mockPublishMessage = vi.fn().mockResolvedValue('message-id-123');
+      mockOn = vi.fn();
+      mockClient = {
+        topic: vi.fn().mockReturnValue({ publishMessage: mockPublishMessage, publisher: { settings: {} } }),
+        subscription: vi.fn().mockReturnValue({ on: mockOn, removeListener: vi.fn(), close: vi.fn() }),
+      } as any;
+    });
+
+    async function publishOne(data: unknown, options: PublisherOptions): Promise<Message> {
+      await createPublisher(mockClient, 'exports', options).publish(data);
+      return { id: 'message-1', ...mockPublishMessage.mock.calls.at(-1)![0], ack: vi.fn(), nack: vi.fn() } as any;
+    }
+
+    async function consumeOne(message: Message, options: ConsumerOptions = {}) {
+      const handler = vi.fn();
+      const errorHandler = vi.fn();
+      const consumer = createConsumer(mockClient, 'exports-sub', options);
+      consumer.on('message', handler);
+      consumer.on('error', errorHandler);
+      consumer.start();
+      await mockOn.mock.calls.find(([name]) => name === 'message')![1](message);
+      return { handler, errorHandler };
+    }
+
+    it('should compress large payloads and decompress them on consume', async () => {
+      const message = await publishOne(document, { compression: { algorithm: 'brotli' } });
+
+      expect(message.attributes).toMatchObject({ contentType: 'application/json', contentEncoding: 'br' });
+      expect(message.data.length).toBeLessThan(JSON.stringify(document).length);
+
+      const { handler } = await consumeOne(message);
+      expect(handler).toHaveBeenCalledWith(document, message);
+    });
+
+    it('should leave small payloads uncompressed', async () => {
+      const message = await publishOne({ id: 1 }, { compression: { threshold: 1024 } });
+
+      expect(message.attributes).not.toHaveProperty('contentEncoding');
+      expect(JSON.parse(message.data.toString())).toEqual({ id: 1 });
+    });
+
+    it('should report the compression ratio once, even across retries', async () => {
+      mockPublishMessage.mockRejectedValueOnce(new Error('unavailable'));
+      const onPublishCompression = vi.fn();
+
+      await publishOne(document, {
+        compression: {},
+        retry: { initialDelayMs: 1, maxAttempts: 2 },
+        hooks: { onPublishCompression },
+      });
+
+      expect(onPublishCompression).toHaveBeenCalledTimes(1);
+      expect(onPublishCompression).toHaveBeenCalledWith(
+        expect.objectContaining({ algorithm: 'gzip', ratio: expect.any(Number) }),
+        document
+      );
+      const [first, second] = mockPublishMessage.mock.calls.map(([request]) => request.data);
+      expect(second).toBe(first);
+    });
+
+    it('should nack payloads that expand beyond maxDecompressedBytes', async () => {
+      const message = await publishOne({ padding: ' '.repeat(100_000) }, { compression: {} });
+
+      const { handler, errorHandler } = await consumeOne(message, { maxDecompressedBytes: 10_000 });
+
+      expect(handler).not.toHaveBeenCalled();
+      expect(message.nack).toHaveBeenCalled();
+      expect(errorHandler).toHaveBeenCalledWith(
+        expect.objectContaining({ code: ErrorCodes.PARSE_ERROR, message: "Decompressed 'gzip' payload exceeds 10000 bytes" }),
+        expect.objectContaining({ phase: 'parse' })
+      );
+    });
+
+    it('should nack messages with an unsupported encoding', async () => {
+      const message = {
+        id: 'message-1',
+        data: Buffer.from('{}'),
+        attributes: { contentEncoding: 'zstd' },
+        ack: vi.fn(),
+        nack: vi.fn(),
+      } as any;
+
+      const { handler, errorHandler } = await consumeOne(message);
+
+      expect(handler).not.toHaveBeenCalled();
+      expect(message.nack).toHaveBeenCalled();
+      expect(errorHandler).toHaveBeenCalledWith(
+        expect.objectContaining({ code: ErrorCodes.PARSE_ERROR }),
+        expect.objectContaining({ phase: 'parse' })
+      );
+    });
+  });
+});
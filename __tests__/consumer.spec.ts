@@ -2,11 +2,17 @@
  * @valianx/pubsub-lite - Consumer Tests (Simplified)
  */
 
-import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { describe, it, expect, expectTypeOf, vi, beforeEach } from 'vitest';
+import { mkdtemp, readFile, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
 import { createConsumer } from '../src/consumer.js';
 import { InMemoryIdempotencyStore } from '../src/idempotency/memory-store.js';
-import type { PubSub, Subscription } from '@google-cloud/pubsub';
-import type { IdempotencyStore, ConsumerOptions } from '../src/types.js';
+import type { PubSub, Subscription, Message } from '@google-cloud/pubsub';
+import { ErrorCodes } from '../src/types.js';
+import type { IdempotencyStore, ConsumerOptions, Codec, JsonSchema } from '../src/types.js';
+import { PayloadValidationError, PubSubLiteError, UnsupportedVersionError } from '../src/errors.js';
+import { textCodec } from '../src/codecs.js';
 
 describe('createConsumer', () => {
   let mockClient: PubSub;
@@ -19,6 +25,7 @@ describe('createConsumer', () => {
     
     mockSubscription = {
       on: mockOn,
+      removeListener: vi.fn(),
       close: vi.fn().mockResolvedValue(undefined),
       name: 'projects/test-project/subscriptions/test-subscription',
     } as any;
@@ -125,4 +132,581 @@ describe('createConsumer', () => {
       expect(consumer).toBeDefined();
     });
   });
+
+  describe('Idempotency Lifecycle', () => {
+    function createMessage(id = 'message-1'): Message {
+      return {
+        id,
+        data: Buffer.from(JSON.stringify({ orderId: 42 }), 'utf8'),
+        attributes: {},
+        ack: vi.fn(),
+        nack: vi.fn(),
+      } as any;
+    }
+
+    function startAndGetListener(
+      options: ConsumerOptions,
+      handler?: (data: unknown, message: Message) => unknown,
+      errorHandler: (...args: any[]) => void = vi.fn()
+    ) {
+      const consumer = createConsumer(mockClient, 'test-subscription', options);
+      if (handler) {
+        consumer.on('message', handler as any);
+      }
+      consumer.on('error', errorHandler);
+      consumer.start();
+      const call = mockOn.mock.calls.find(([event]) => event === 'message');
+      return call![1] as (message: Message) => Promise<void>;
+    }
+
+    it('should mark the key as completed when the handler acks', async () => {
+      let statusDuringHandler: string | null = null;
+      const listener = startAndGetListener(
+        { idempotencyEnabled: true, idempotencyStore: mockIdempotencyStore },
+        async (_data, message) => {
+          statusDuringHandler = await mockIdempotencyStore.getStatus('message-1');
+          message.ack();
+        }
+      );
+
+      await listener(createMessage());
+
+      expect(statusDuringHandler).toBe('processing');
+      expect(await mockIdempotencyStore.getStatus('message-1')).toBe('completed');
+    });
+
+    it('should release the key and nack when the handler fails', async () => {
+      const listener = startAndGetListener(
+        { idempotencyEnabled: true, idempotencyStore: mockIdempotencyStore },
+        () => {
+          throw new Error('Handler failed');
+        }
+      );
+      const message = createMessage();
+      const { nack } = message;
+
+      await listener(message);
+
+      expect(nack).toHaveBeenCalled();
+      expect(await mockIdempotencyStore.getStatus('message-1')).toBeNull();
+    });
+
+    it('should release the key when the handler nacks without throwing', async () => {
+      const handler = vi.fn()
+        .mockImplementationOnce((_data: unknown, message: Message) => message.nack())
+        .mockImplementationOnce((_data: unknown, message: Message) => message.ack());
+      const listener = startAndGetListener(
+        { idempotencyEnabled: true, idempotencyStore: mockIdempotencyStore },
+        handler
+      );
+      const first = createMessage();
+      const redelivery = createMessage();
+      const { nack } = first;
+      const { ack } = redelivery;
+
+      await listener(first);
+      expect(nack).toHaveBeenCalled();
+      expect(await mockIdempotencyStore.getStatus('message-1')).toBeNull();
+
+      await listener(redelivery);
+      expect(handler).toHaveBeenCalledTimes(2);
+      expect(ack).toHaveBeenCalled();
+      expect(await mockIdempotencyStore.getStatus('message-1')).toBe('completed');
+    });
+
+    it('should keep the key leased while the handler has not settled the message', async () => {
+      const listener = startAndGetListener(
+        { idempotencyEnabled: true, idempotencyStore: mockIdempotencyStore },
+        vi.fn()
+      );
+      const message = createMessage();
+
+      await listener(message);
+      expect(await mockIdempotencyStore.getStatus('message-1')).toBe('processing');
+
+      // Settled later, e.g. after asynchronous processing
+      message.ack();
+      expect(await mockIdempotencyStore.getStatus('message-1')).toBe('completed');
+    });
+
+    it('should keep the key completed when the handler acks and then throws', async () => {
+      const listener = startAndGetListener(
+        { idempotencyEnabled: true, idempotencyStore: mockIdempotencyStore },
+        (_data, message) => {
+          message.ack();
+          throw new Error('Handler failed after ack');
+        }
+      );
+
+      await listener(createMessage());
+
+      expect(await mockIdempotencyStore.getStatus('message-1')).toBe('completed');
+    });
+
+    it('should process a redelivery after a failed attempt', async () => {
+      const handler = vi.fn()
+        .mockRejectedValueOnce(new Error('Handler failed'))
+        .mockImplementationOnce((_data: unknown, message: Message) => message.ack());
+      const listener = startAndGetListener(
+        { idempotencyEnabled: true, idempotencyStore: mockIdempotencyStore },
+        handler
+      );
+
+      await listener(createMessage());
+      await listener(createMessage());
+
+      expect(handler).toHaveBeenCalledTimes(2);
+      expect(await mockIdempotencyStore.getStatus('message-1')).toBe('completed');
+    });
+
+    it('should ack completed duplicates without calling the handler', async () => {
+      await mockIdempotencyStore.markCompleted('message-1');
+      const handler = vi.fn();
+      const listener = startAndGetListener(
+        { idempotencyEnabled: true, idempotencyStore: mockIdempotencyStore },
+        handler
+      );
+      const message = createMessage();
+
+      await listener(message);
+
+      expect(message.ack).toHaveBeenCalled();
+      expect(handler).not.toHaveBeenCalled();
+    });
+
+    it('should nack messages whose key is leased by another delivery', async () => {
+      await mockIdempotencyStore.tryClaim('message-1');
+      const handler = vi.fn();
+      const listener = startAndGetListener(
+        { idempotencyEnabled: true, idempotencyStore: mockIdempotencyStore },
+        handler
+      );
+      const message = createMessage();
+
+      await listener(message);
+
+      expect(message.nack).toHaveBeenCalled();
+      expect(handler).not.toHaveBeenCalled();
+    });
+
+    it('should use a file-backed store from the file option', async () => {
+      const dir = await mkdtemp(join(tmpdir(), 'pubsub-lite-'));
+      const path = join(dir, 'idempotency.log');
+      const listener = startAndGetListener(
+        { idempotencyEnabled: true, file: { path } },
+        (_data, message) => message.ack()
+      );
+
+      await listener(createMessage());
+
+      expect(await readFile(path, 'utf8')).toContain('"k":"message-1","s":"completed"');
+      await rm(dir, { recursive: true, force: true });
+    });
+
+    describe('Codecs', () => {
+      function createEncodedMessage(data: Buffer, contentType?: string): Message {
+        return {
+          ...createMessage(),
+          data,
+          attributes: contentType === undefined ? {} : { contentType },
+        } as any;
+      }
+
+      it('should pick the decoder from the contentType attribute', async () => {
+        const handler = vi.fn();
+        const listener = startAndGetListener({}, handler);
+
+        await listener(createEncodedMessage(Buffer.from('hello'), 'text/plain; charset=utf-8'));
+
+        expect(handler).toHaveBeenCalledWith('hello', expect.anything());
+      });
+
+      it('should decode messages without a content type with the default codec', async () => {
+        const handler = vi.fn();
+        const listener = startAndGetListener({ codec: textCodec as Codec }, handler);
+
+        await listener(createEncodedMessage(Buffer.from('{"a":1}')));
+
+        expect(handler).toHaveBeenCalledWith('{"a":1}', expect.anything());
+      });
+
+      it('should use custom codecs registered by content type', async () => {
+        const csvCodec: Codec = {
+          contentType: 'text/csv',
+          encode: (data) => Buffer.from((data as string[]).join(',')),
+          decode: (data) => data.toString('utf8').split(','),
+        };
+        const handler = vi.fn();
+        const listener = startAndGetListener({ codecs: [csvCodec] }, handler);
+
+        await listener(createEncodedMessage(Buffer.from('a,b'), 'text/csv'));
+
+        expect(handler).toHaveBeenCalledWith(['a', 'b'], expect.anything());
+      });
+
+      it('should report PARSE_ERROR and nack when decoding fails', async () => {
+        const handler = vi.fn();
+        const errorHandler = vi.fn();
+        const listener = startAndGetListener(
+          { idempotencyEnabled: true, idempotencyStore: mockIdempotencyStore },
+          handler,
+          errorHandler
+        );
+        const message = createEncodedMessage(Buffer.from('not json'), 'application/json');
+
+        await listener(message);
+
+        expect(handler).not.toHaveBeenCalled();
+        expect(message.nack).toHaveBeenCalled();
+        const [error, context] = errorHandler.mock.calls[0]!;
+        expect(error).toBeInstanceOf(PubSubLiteError);
+        expect(error.code).toBe(ErrorCodes.PARSE_ERROR);
+        expect(error.cause).toBeInstanceOf(SyntaxError);
+        expect(context).toMatchObject({ messageId: 'message-1', phase: 'parse' });
+        expect(await mockIdempotencyStore.getStatus('message-1')).toBeNull();
+      });
+
+      it('should report typed codec errors as raised', async () => {
+        const strictCodec: Codec = {
+          contentType: 'application/avro',
+          encode: () => Buffer.alloc(0),
+          decode: () => {
+            throw new PubSubLiteError('Payload does not match schema', ErrorCodes.SCHEMA_ERROR);
+          },
+        };
+        const errorHandler = vi.fn();
+        const listener = startAndGetListener({ codecs: [strictCodec] }, vi.fn(), errorHandler);
+
+        await listener(createEncodedMessage(Buffer.from([1]), 'application/avro'));
+
+        expect(errorHandler).toHaveBeenCalledWith(
+          expect.objectContaining({ code: ErrorCodes.SCHEMA_ERROR }),
+          expect.objectContaining({ phase: 'parse' })
+        );
+      });
+
+      it('should report PARSE_ERROR for unknown content types', async () => {
+        const errorHandler = vi.fn();
+        const listener = startAndGetListener({}, vi.fn(), errorHandler);
+        const message = createEncodedMessage(Buffer.from('<a/>'), 'application/xml');
+
+        await listener(message);
+
+        expect(message.nack).toHaveBeenCalled();
+        expect(errorHandler).toHaveBeenCalledWith(
+          expect.objectContaining({ code: ErrorCodes.PARSE_ERROR }),
+          expect.objectContaining({ phase: 'parse' })
+        );
+      });
+    });
+
+    describe('Validation', () => {
+      const schema: JsonSchema = { type: 'object', required: ['orderId', 'sku'] };
+
+      it('should nack invalid messages with path-level details by default', async () => {
+        const handler = vi.fn();
+        const errorHandler = vi.fn();
+        const listener = startAndGetListener(
+          { idempotencyEnabled: true, idempotencyStore: mockIdempotencyStore, validator: schema },
+          handler,
+          errorHandler
+        );
+        const message = createMessage();
+
+        await listener(message);
+
+        expect(handler).not.toHaveBeenCalled();
+        expect(message.nack).toHaveBeenCalled();
+        expect(await mockIdempotencyStore.getStatus('message-1')).toBeNull();
+        const [error, context] = errorHandler.mock.calls[0]!;
+        expect(error).toBeInstanceOf(PayloadValidationError);
+        expect(error.code).toBe(ErrorCodes.SCHEMA_ERROR);
+        expect(context).toMatchObject({
+          messageId: 'message-1',
+          phase: 'validate',
+          metadata: { issues: [{ path: 'sku', message: 'is required' }], policy: 'nack' },
+        });
+      });
+
+      it('should ack and drop invalid messages with the ack policy', async () => {
+        const handler = vi.fn();
+        const listener = startAndGetListener({ validator: schema, invalidMessagePolicy: 'ack' }, handler);
+        const message = createMessage();
+
+        await listener(message);
+
+        expect(handler).not.toHaveBeenCalled();
+        expect(message.ack).toHaveBeenCalled();
+        expect(message.nack).not.toHaveBeenCalled();
+      });
+
+      it('should republish invalid messages to the dead letter topic and ack them', async () => {
+        const publishMessage = vi.fn().mockResolvedValue('dlq-id');
+        (mockClient as any).topic = vi.fn().mockReturnValue({ publishMessage });
+        const listener = startAndGetListener(
+          { validator: schema, invalidMessagePolicy: 'deadLetter', deadLetterTopic: 'orders-invalid' },
+          vi.fn()
+        );
+        const message = createMessage();
+
+        await listener(message);
+
+        expect(mockClient.topic).toHaveBeenCalledWith('orders-invalid');
+        expect(publishMessage).toHaveBeenCalledWith({
+          data: message.data,
+          attributes: {
+            deadLetterReason: ErrorCodes.SCHEMA_ERROR,
+            deadLetterSource: 'projects/test-project/subscriptions/test-subscription',
+            originalMessageId: 'message-1',
+          },
+        });
+        expect(message.ack).toHaveBeenCalled();
+      });
+
+      it('should nack when the dead letter publish fails', async () => {
+        const publishMessage = vi.fn().mockRejectedValue(new Error('topic not found'));
+        (mockClient as any).topic = vi.fn().mockReturnValue({ publishMessage });
+        const errorHandler = vi.fn();
+        const listener = startAndGetListener(
+          { validator: schema, invalidMessagePolicy: 'deadLetter', deadLetterTopic: 'orders-invalid' },
+          vi.fn(),
+          errorHandler
+        );
+        const message = createMessage();
+
+        await listener(message);
+
+        expect(message.nack).toHaveBeenCalled();
+        expect(message.ack).not.toHaveBeenCalled();
+        expect(errorHandler).toHaveBeenLastCalledWith(
+          expect.objectContaining({ code: ErrorCodes.PUBLISH_ERROR }),
+          expect.objectContaining({ phase: 'validate' })
+        );
+      });
+
+      it('should require a dead letter topic for the deadLetter policy', () => {
+        expect(() => createConsumer(mockClient, 'test-subscription', { invalidMessagePolicy: 'deadLetter' })).toThrow(
+          expect.objectContaining({ code: ErrorCodes.INVALID_CONFIG })
+        );
+      });
+
+      it('should pass the validator output to the handler', async () => {
+        const handler = vi.fn();
+        const listener = startAndGetListener(
+          { validator: { parse: (data: any) => ({ ...data, parsed: true }) } },
+          handler
+        );
+
+        await listener(createMessage());
+
+        expect(handler).toHaveBeenCalledWith({ orderId: 42, parsed: true }, expect.anything());
+      });
+    });
+
+    describe('Typed Payloads', () => {
+      interface Order {
+        orderId: number;
+      }
+      const isOrder = (data: unknown): data is Order =>
+        typeof data === 'object' && data !== null && typeof (data as Order).orderId === 'number';
+
+      it('should infer the payload type from the guard', () => {
+        const consumer = createConsumer(mockClient, 'test-subscription', { guard: isOrder });
+
+        consumer.on('message', (order) => {
+          expectTypeOf(order).toEqualTypeOf<Order>();
+        });
+        expectTypeOf(consumer.on).parameter(1).toMatchTypeOf<(data: Order, message: Message) => unknown>();
+      });
+
+      it('should call the handler with data that passes the guard', async () => {
+        const handler = vi.fn();
+        const listener = startAndGetListener({ guard: isOrder }, handler);
+
+        await listener(createMessage());
+
+        expect(handler).toHaveBeenCalledWith({ orderId: 42 }, expect.anything());
+      });
+
+      it('should apply the invalid message policy when the guard fails', async () => {
+        const handler = vi.fn();
+        const errorHandler = vi.fn();
+        const listener = startAndGetListener(
+          { guard: (data: unknown): data is { sku: string } => typeof (data as any)?.sku === 'string' },
+          handler,
+          errorHandler
+        );
+        const message = createMessage();
+
+        await listener(message);
+
+        expect(handler).not.toHaveBeenCalled();
+        expect(message.nack).toHaveBeenCalled();
+        expect(errorHandler).toHaveBeenCalledWith(
+          expect.any(PayloadValidationError),
+          expect.objectContaining({ phase: 'validate', metadata: expect.objectContaining({
+            issues: [{ path: '', message: 'Payload failed the type guard' }],
+          }) })
+        );
+      });
+    });
+
+    describe('Upcasting', () => {
+      const upcasters = {
+        'order.created': [{ from: '1', to: '2', upcast: ({ orderId }: { orderId: number }) => ({ id: String(orderId) }) }],
+      };
+
+      function createVersionedMessage(version: string): Message {
+        return { ...createMessage(), attributes: { type: 'order.created', version } } as Message;
+      }
+
+      it('should upcast payloads before validation and the handler', async () => {
+        const handler = vi.fn();
+        const listener = startAndGetListener(
+          { upcasters, validator: { type: 'object', required: ['id'] } },
+          handler
+        );
+        const message = createVersionedMessage('1');
+
+        await listener(message);
+
+        expect(handler).toHaveBeenCalledWith({ id: '42' }, message);
+      });
+
+      it('should apply the invalid message policy to unknown versions', async () => {
+        const handler = vi.fn();
+        const errorHandler = vi.fn();
+        const listener = startAndGetListener({ upcasters }, handler, errorHandler);
+        const message = createVersionedMessage('3');
+
+        await listener(message);
+
+        expect(handler).not.toHaveBeenCalled();
+        expect(message.nack).toHaveBeenCalled();
+        expect(errorHandler).toHaveBeenCalledWith(
+          expect.any(UnsupportedVersionError),
+          expect.objectContaining({
+            phase: 'upcast',
+            metadata: { eventType: 'order.created', version: '3', latestVersion: '2', policy: 'nack' },
+          })
+        );
+      });
+
+      it('should nack and report the upcast phase when an upcaster throws', async () => {
+        const errorHandler = vi.fn();
+        const listener = startAndGetListener(
+          { upcasters: { 'order.created': [{ from: '1', to: '2', upcast: () => { throw new Error('boom'); } }] } },
+          vi.fn(),
+          errorHandler
+        );
+        const message = createVersionedMessage('1');
+
+        await listener(message);
+
+        expect(message.nack).toHaveBeenCalled();
+        expect(errorHandler).toHaveBeenCalledWith(expect.any(Error), expect.objectContaining({ phase: 'upcast' }));
+      });
+
+      it('should reject invalid chains at creation', () => {
+        expect(() => createConsumer(mockClient, 'test-subscription', {
+          upcasters: { 'order.created': [{ from: '1', to: '1', upcast: (data) => data }] },
+        })).toThrow(expect.objectContaining({ code: ErrorCodes.INVALID_CONFIG }));
+      });
+    });
+
+    describe('Store Failure Policy', () => {
+      beforeEach(() => {
+        vi.spyOn(mockIdempotencyStore, 'tryClaim').mockRejectedValue(new Error('Redis down'));
+      });
+
+      it('should process the message and report IDEMPOTENCY_ERROR by default', async () => {
+        const handler = vi.fn();
+        const errorHandler = vi.fn();
+        const listener = startAndGetListener(
+          { idempotencyEnabled: true, idempotencyStore: mockIdempotencyStore },
+          handler,
+          errorHandler
+        );
+
+        await listener(createMessage());
+
+        expect(handler).toHaveBeenCalled();
+        const [error, context] = errorHandler.mock.calls[0]!;
+        expect(error).toBeInstanceOf(PubSubLiteError);
+        expect(error.code).toBe(ErrorCodes.IDEMPOTENCY_ERROR);
+        expect(error.cause).toEqual(new Error('Redis down'));
+        expect(context).toMatchObject({ messageId: 'message-1', phase: 'idempotency' });
+      });
+
+      it('should nack without calling the handler with the nack policy', async () => {
+        const handler = vi.fn();
+        const listener = startAndGetListener(
+          { idempotencyEnabled: true, idempotencyStore: mockIdempotencyStore, idempotencyFailurePolicy: 'nack' },
+          handler
+        );
+        const message = createMessage();
+
+        await listener(message);
+
+        expect(handler).not.toHaveBeenCalled();
+        expect(message.nack).toHaveBeenCalled();
+        expect(mockSubscription.removeListener).not.toHaveBeenCalled();
+      });
+
+      it('should pause until the store recovers with the pause policy', async () => {
+        vi.useFakeTimers();
+        const hasSpy = vi.spyOn(mockIdempotencyStore, 'has').mockRejectedValueOnce(new Error('Redis down'));
+        const warn = vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+        const handler = vi.fn();
+        const listener = startAndGetListener(
+          {
+            idempotencyEnabled: true,
+            idempotencyStore: mockIdempotencyStore,
+            idempotencyFailurePolicy: 'pause',
+            idempotencyRecoveryInterval: 1000,
+          },
+          handler
+        );
+        const message = createMessage();
+
+        await listener(message);
+
+        expect(handler).not.toHaveBeenCalled();
+        expect(message.nack).toHaveBeenCalled();
+        expect(mockSubscription.removeListener).toHaveBeenCalledWith('message', listener);
+        expect(warn).toHaveBeenCalledWith(
+          '@valianx/pubsub-lite: Idempotency store unavailable, pausing consumer until it recovers'
+        );
+
+        // First probe fails, second succeeds and reattaches the listener
+        await vi.advanceTimersByTimeAsync(1000);
+        expect(mockOn.mock.calls.filter(([event]) => event === 'message')).toHaveLength(1);
+        await vi.advanceTimersByTimeAsync(1000);
+        expect(hasSpy).toHaveBeenCalledTimes(2);
+        expect(mockOn.mock.calls.filter(([event]) => event === 'message')).toHaveLength(2);
+
+        warn.mockRestore();
+        vi.useRealTimers();
+      });
+
+      it('should report failures to complete the key after the handler acks', async () => {
+        vi.mocked(mockIdempotencyStore.tryClaim).mockResolvedValue(true);
+        vi.spyOn(mockIdempotencyStore, 'markCompleted').mockRejectedValue(new Error('Redis down'));
+        const errorHandler = vi.fn();
+        const listener = startAndGetListener(
+          { idempotencyEnabled: true, idempotencyStore: mockIdempotencyStore },
+          (_data, message) => message.ack(),
+          errorHandler
+        );
+
+        await listener(createMessage());
+
+        // The key is completed in the background of the synchronous ack()
+        await vi.waitFor(() => expect(errorHandler).toHaveBeenCalledWith(
+          expect.objectContaining({ code: ErrorCodes.IDEMPOTENCY_ERROR }),
+          expect.objectContaining({ phase: 'idempotency' })
+        ));
+      });
+    });
+  });
 });
@@ -0,0 +1,196 @@
+/**
+ * @valianx/pubsub-lite - Encryption Tests
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { randomBytes } from 'node:crypto';
+import type { PubSub, Message } from '@google-cloud/pubsub';
+import { decryptPayload, encryptPayload, StaticKeyProvider } from '../src/encryption.js';
+import { createPublisher } from '../src/publisher.js';
+import { createConsumer } from '../src/consumer.js';
+import { eventRegistry } from '../src/events.js';
+import { InMemoryIdempotencyStore } from '../src/idempotency/memory-store.js';
+import { byPayloadHash } from '../src/idempotency/key-selectors.js';
+import { ErrorCodes } from '../src/types.js';
+import type { ConsumerOptions, PublisherOptions } from '../src/types.js';
+import { UnknownKeyError } from '../src/errors.js';
+
+describe('Encryption', () => {
+  const oldKey = randomBytes(32);
+  const newKey = randomBytes(32);
+  const plaintext = Buffer.from('{"ssn":"123-45-6789"}');
+
+  describe('StaticKeyProvider', () => {
+    it('should reject keys of the wrong size and an unknown current key', () => {
+      expect(() => new StaticKeyProvider({ currentKeyId: 'k1', keys: { k1: randomBytes(16) } })).toThrow(
+        "Key 'k1' must be 32 bytes for AES-256"
+      );
+      expect(() => new StaticKeyProvider({ currentKeyId: 'k2', keys: { k1: oldKey } })).toThrow(
+        expect.objectContaining({ code: ErrorCodes.INVALID_CONFIG })
+      );
+    });
+  });
+
+  describe('encryptPayload / decryptPayload', () => {
+    const provider = new StaticKeyProvider({ currentKeyId: 'k1', keys: { k1: oldKey } });
+
+    it('should round trip and mark the key ID', async () => {
+      const encrypted = await encryptPayload(plaintext, provider);
+
+      expect(encrypted.attributes).toEqual({
+        encryption: 'aes-256-gcm',
+        encryptionKeyId: 'k1',
+        encryptedDataKey: expect.any(String),
+      });
+      expect(encrypted.data.includes(plaintext)).toBe(false);
+      expect(await decryptPayload(encrypted.data, encrypted.attributes, provider)).toEqual(plaintext);
+    });
+
+    it('should use a fresh data key for every payload', async () => {
+      const first = await encryptPayload(plaintext, provider);
+      const second = await encryptPayload(plaintext, provider);
+
+      expect(first.attributes.encryptedDataKey).not.toBe(second.attributes.encryptedDataKey);
+      expect(first.data.equals(second.data)).toBe(false);
+    });
+
+    it('should decrypt messages from before a rotation', async () => {
+      const encrypted = await encryptPayload(plaintext, provider);
+      const rotated = new StaticKeyProvider({ currentKeyId: 'k2', keys: { k1: oldKey, k2: newKey } });
+
+      expect(await decryptPayload(encrypted.data, encrypted.attributes, rotated)).toEqual(plaintext);
+      expect((await encryptPayload(plaintext, rotated)).attributes.encryptionKeyId).toBe('k2');
+    });
+
+    it('should raise UnknownKeyError for keys the provider does not know', async () => {
+      const encrypted = await encryptPayload(plaintext, provider);
+      const other = new StaticKeyProvider({ currentKeyId: 'k2', keys: { k2: newKey } });
+
+      const error = await decryptPayload(encrypted.data, encrypted.attributes, other).catch((e: unknown) => e);
+
+      expect(error).toBeInstanceOf(UnknownKeyError);
+      expect(error).toMatchObject({ code: ErrorCodes.UNKNOWN_KEY, keyId: 'k1', message: "Unknown key 'k1'" });
+    });
+
+    it('should detect tampered data and swapped key IDs', async () => {
+      const encrypted = await encryptPayload(plaintext, provider);
+      const tampered = Buffer.from(encrypted.data);
+      tampered[15]! ^= 0xff;
+      const sameKeyTwoIds = new StaticKeyProvider({ currentKeyId: 'k1', keys: { k1: oldKey, alias: oldKey } });
+
+      await expect(decryptPayload(tampered, encrypted.attributes, provider)).rejects.toMatchObject({
+        code: ErrorCodes.ENCRYPTION_ERROR,
+      });
+      await expect(
+        decryptPayload(encrypted.data, { ...encrypted.attributes, encryptionKeyId: 'alias' }, sameKeyTwoIds)
+      ).rejects.toMatchObject({ code: ErrorCodes.ENCRYPTION_ERROR });
+    });
+
+    it('should reject unknown algorithms and incomplete attributes', async () => {
+      await expect(decryptPayload(plaintext, { encryption: 'rot13' }, provider)).rejects.toThrow(
+        "Unsupported encryption algorithm 'rot13'"
+      );
+      await expect(decryptPayload(plaintext, { encryption: 'aes-256-gcm' }, provider)).rejects.toMatchObject({
+        code: ErrorCodes.ENCRYPTION_ERROR,
+      });
+    });
+  });
+
+  describe('Publisher and Consumer', () => {
+    const keyProvider = new StaticKeyProvider({ currentKeyId: 'k1', keys: { k1: oldKey } });
+    let mockClient: PubSub;
+    let mockPublishMessage: ReturnType<typeof vi.fn>;
+    let mockOn: ReturnType<typeof vi.fn>;
+
+    beforeEach(() => {
+      eventRegistry.clear();
+      mockPublishMessage = vi.fn().mockResolvedValue('message-id-123');
+      mockOn = vi.fn();
+      mockClient = {
+        topic: vi.fn().mockReturnValue({ publishMessage: mockPublishMessage, publisher: { settings: {} } }),
+        subscription: vi.fn().mockReturnValue({ on: mockOn, removeListener: vi.fn(), close: vi.fn() }),
+      } as any;
+    });
+
+    async function publishOne(data: unknown, options: PublisherOptions): Promise<Message> {
+      await createPublisher(mockClient, 'customers', options).publish(data);
+      return { id: 'message-1', ...mockPublishMessage.mock.calls.at(-1)![0], ack: vi.fn(), nack: vi.fn() } as any;
+    }
+
+    async function consumeOne(message: Message, options: ConsumerOptions) {
+      const handler = vi.fn();
+      const errorHandler = vi.fn();
+      const consumer = createConsumer(mockClient, 'customers-sub', options);
+      consumer.on('message', handler);
+      consumer.on('error', errorHandler);
+      consumer.start();
+      await mockOn.mock.calls.find(([name]) => name === 'message')![1](message);
+      return { handler, errorHandler };
+    }
+
+    it('should encrypt compressed payloads and decrypt them on consume', async () => {
+      const customer = { name: 'Ada', notes: 'n'.repeat(2000) };
+      const message = await publishOne(customer, { encryption: { keyProvider }, compression: {} });
+
+      expect(message.attributes).toMatchObject({ contentEncoding: 'gzip', encryptionKeyId: 'k1' });
+      expect(message.data.toString()).not.toContain('Ada');
+
+      const { handler } = await consumeOne(message, { encryption: { keyProvider } });
+      expect(handler).toHaveBeenCalledWith(customer, message);
+    });
+
+    it('should nack with UnknownKeyError in the decrypt phase', async () => {
+      const message = await publishOne({ name: 'Ada' }, { encryption: { keyProvider } });
+      const otherProvider = new StaticKeyProvider({ currentKeyId: 'k2', keys: { k2: newKey } });
+
+      const { handler, errorHandler } = await consumeOne(message, { encryption: { keyProvider: otherProvider } });
+
+      expect(handler).not.toHaveBeenCalled();
+      expect(message.nack).toHaveBeenCalled();
+      expect(errorHandler).toHaveBeenCalledWith(expect.any(UnknownKeyError), expect.objectContaining({ phase: 'decrypt' }));
+    });
+
+    it('should nack encrypted messages when no key provider is configured', async () => {
+      const message = await publishOne({ name: 'Ada' }, { encryption: { keyProvider } });
+
+      const { errorHandler } = await consumeOne(message, {});
+
+      expect(message.nack).toHaveBeenCalled();
+      expect(errorHandler).toHaveBeenCalledWith(
+        expect.objectContaining({ code: ErrorCodes.ENCRYPTION_ERROR }),
+        expect.anything()
+      );
+    });
+
+    it('should key idempotency on the decrypted payload', async () => {
+      const options = { encryption: { keyProvider }, compression: { threshold: 0 } };
+      const first = await publishOne({ name: 'Ada' }, options);
+      const second = { ...(await publishOne({ name: 'Ada' }, options)), id: 'message-2' } as Message;
+      expect(first.data.equals(second.data)).toBe(false);
+
+      const handler = vi.fn((_data: unknown, message: Message) => message.ack());
+      const consumer = createConsumer(mockClient, 'customers-sub', {
+        encryption: { keyProvider },
+        idempotencyEnabled: true,
+        idempotencyStore: new InMemoryIdempotencyStore(),
+        idempotencyKeySelector: byPayloadHash(),
+      });
+      consumer.on('message', handler);
+      consumer.start();
+      const listener = mockOn.mock.calls.find(([name]) => name === 'message')![1];
+      await listener(first);
+      await listener(second);
+
+      expect(handler).toHaveBeenCalledTimes(1);
+      expect(second.ack).toHaveBeenCalled();
+    });
+
+    it('should still accept plaintext messages', async () => {
+      const message = await publishOne({ name: 'Ada' }, {});
+
+      const { handler } = await consumeOne(message, { encryption: { keyProvider } });
+
+      expect(handler).toHaveBeenCalledWith({ name: 'Ada' }, message);
+    });
+  });
+});
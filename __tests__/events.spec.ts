@@ -0,0 +1,174 @@
+/**
+ * @valianx/pubsub-lite - Event Catalog Tests
+ */
+
+import { describe, it, expect, expectTypeOf, vi, beforeEach } from 'vitest';
+import type { PubSub, Message } from '@google-cloud/pubsub';
+import { defineEvent, eventRegistry } from '../src/events.js';
+import { createPublisher } from '../src/publisher.js';
+import { createConsumer } from '../src/consumer.js';
+import { ErrorCodes } from '../src/types.js';
+import type { EventDefinition } from '../src/types.js';
+
+interface OrderCreated {
+  orderId: string;
+}
+
+describe('Event Catalog', () => {
+  let mockClient: PubSub;
+  let mockPublishMessage: ReturnType<typeof vi.fn>;
+  let mockOn: ReturnType<typeof vi.fn>;
+
+  beforeEach(() => {
+    eventRegistry.clear();
+    mockPublishMessage = vi.fn().mockResolvedValue('message-id-123');
+    mockOn = vi.fn();
+    mockClient = {
+      topic: vi.fn().mockReturnValue({ publishMessage: mockPublishMessage, publisher: { settings: {} } }),
+      subscription: vi.fn().mockReturnValue({ on: mockOn, removeListener: vi.fn(), close: vi.fn() }),
+    } as any;
+  });
+
+  function createMessage(data: unknown, attributes: Record<string, string>): Message {
+    return {
+      id: 'message-1',
+      data: Buffer.from(JSON.stringify(data)),
+      attributes,
+      ack: vi.fn(),
+      nack: vi.fn(),
+    } as any;
+  }
+
+  describe('defineEvent', () => {
+    it('should register frozen definitions', () => {
+      const event = defineEvent<OrderCreated>({ name: 'order.created', version: '1', topic: 'orders' });
+
+      expect(Object.isFrozen(event)).toBe(true);
+      expect(eventRegistry.list()).toEqual([event]);
+      expect(eventRegistry.get('order.created', '1')).toBe(event);
+    });
+
+    it('should return the latest version when none is given', () => {
+      defineEvent({ name: 'order.created', version: '1', topic: 'orders' });
+      const v2 = defineEvent({ name: 'order.created', version: '2', topic: 'orders' });
+
+      expect(eventRegistry.get('order.created')).toBe(v2);
+      expect(eventRegistry.get('order.shipped')).toBeUndefined();
+    });
+
+    it('should reject conflicting topics for the same name and version', () => {
+      defineEvent({ name: 'order.created', version: '1', topic: 'orders' });
+
+      expect(() => defineEvent({ name: 'order.created', version: '1', topic: 'other' })).toThrow(
+        expect.objectContaining({ code: ErrorCodes.INVALID_CONFIG })
+      );
+    });
+
+    it('should reject incomplete definitions', () => {
+      expect(() => defineEvent({ name: 'order.created', version: '', topic: 'orders' })).toThrow(
+        expect.objectContaining({ code: ErrorCodes.INVALID_CONFIG })
+      );
+    });
+
+    it('should infer the payload type from parse-style schemas and type guards', () => {
+      const fromParse = defineEvent({
+        name: 'a',
+        version: '1',
+        topic: 't',
+        schema: { parse: (data: unknown) => data as OrderCreated },
+      });
+      const fromGuard = defineEvent({
+        name: 'b',
+        version: '1',
+        topic: 't',
+        schema: (data: unknown): data is OrderCreated => typeof data === 'object',
+      });
+
+      expectTypeOf(fromParse).toEqualTypeOf<EventDefinition<OrderCreated>>();
+      expectTypeOf(fromGuard).toEqualTypeOf<EventDefinition<OrderCreated>>();
+    });
+  });
+
+  describe('Publisher Integration', () => {
+    it('should publish to the event topic with type and version attributes', async () => {
+      const event = defineEvent<OrderCreated>({ name: 'order.created', version: '2', topic: 'orders' });
+      const publisher = createPublisher(mockClient, event);
+
+      expectTypeOf(publisher.publish).parameter(0).toEqualTypeOf<OrderCreated>();
+      await publisher.publish({ orderId: 'o-1' }, { type: 'spoofed' });
+
+      expect(mockClient.topic).toHaveBeenCalledWith('orders');
+      expect(mockPublishMessage.mock.calls[0][0].attributes).toEqual({
+        type: 'order.created',
+        version: '2',
+        contentType: 'application/json',
+      });
+      expect(eventRegistry.listProduced()).toEqual([event]);
+    });
+
+    it('should validate payloads with the event schema', async () => {
+      const event = defineEvent<OrderCreated>({
+        name: 'order.created',
+        version: '1',
+        topic: 'orders',
+        schema: { type: 'object', required: ['orderId'] },
+      });
+      const publisher = createPublisher(mockClient, event);
+
+      await expect(publisher.publish({} as OrderCreated)).rejects.toMatchObject({ code: ErrorCodes.SCHEMA_ERROR });
+      expect(mockPublishMessage).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('Consumer Integration', () => {
+    function startConsumer(event: EventDefinition<OrderCreated>, handler: (data: OrderCreated) => void) {
+      const consumer = createConsumer(mockClient, 'orders-sub', { event });
+      consumer.on('message', handler);
+      consumer.on('error', vi.fn());
+      consumer.start();
+      return mockOn.mock.calls.find(([name]) => name === 'message')![1] as (message: Message) => Promise<void>;
+    }
+
+    it('should record consumers and type the handler', () => {
+      const event = defineEvent<OrderCreated>({ name: 'order.created', version: '1', topic: 'orders' });
+
+      startConsumer(event, (order) => {
+        expectTypeOf(order).toEqualTypeOf<OrderCreated>();
+      });
+
+      expect(eventRegistry.listConsumed()).toEqual([{ event, subscription: 'orders-sub' }]);
+    });
+
+    it('should validate messages with the event schema', async () => {
+      const event = defineEvent<OrderCreated>({
+        name: 'order.created',
+        version: '1',
+        topic: 'orders',
+        schema: { type: 'object', required: ['orderId'] },
+      });
+      const handler = vi.fn();
+      const listener = startConsumer(event, handler);
+      const valid = createMessage({ orderId: 'o-1' }, { type: 'order.created' });
+      const invalid = createMessage({}, { type: 'order.created' });
+
+      await listener(valid);
+      await listener(invalid);
+
+      expect(handler).toHaveBeenCalledTimes(1);
+      expect(handler).toHaveBeenCalledWith({ orderId: 'o-1' }, valid);
+      expect(invalid.nack).toHaveBeenCalled();
+    });
+
+    it('should reject messages of other event types', async () => {
+      const event = defineEvent<OrderCreated>({ name: 'order.created', version: '1', topic: 'orders' });
+      const handler = vi.fn();
+      const listener = startConsumer(event, handler);
+      const message = createMessage({ orderId: 'o-1' }, { type: 'order.cancelled' });
+
+      await listener(message);
+
+      expect(handler).not.toHaveBeenCalled();
+      expect(message.nack).toHaveBeenCalled();
+    });
+  });
+});
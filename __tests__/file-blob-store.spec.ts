@@ -0,0 +1,57 @@
+/**
+ * @valianx/pubsub-lite - FileBlobStore Tests
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtemp, readdir, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { FileBlobStore } from '../src/blob/file-store.js';
+import { ErrorCodes } from '../src/types.js';
+
+describe('FileBlobStore', () => {
+  let dir: string;
+  let directory: string;
+  let store: FileBlobStore;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'pubsub-lite-'));
+    directory = join(dir, 'nested', 'blobs');
+    store = new FileBlobStore({ directory });
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it('should store, fetch and delete payloads', async () => {
+    const data = Buffer.from([1, 2, 3]);
+
+    const reference = await store.put(data);
+
+    expect(await store.get(reference)).toEqual(data);
+    expect(await readdir(directory)).toEqual([`${reference}.blob`]);
+
+    await store.delete(reference);
+    await expect(store.get(reference)).rejects.toMatchObject({ code: 'ENOENT' });
+  });
+
+  it('should return a new reference for every payload', async () => {
+    const first = await store.put(Buffer.from('a'));
+    const second = await store.put(Buffer.from('a'));
+
+    expect(first).not.toBe(second);
+  });
+
+  it('should ignore deleting a missing payload', async () => {
+    await expect(store.delete('00000000-0000-4000-8000-000000000000')).resolves.toBeUndefined();
+  });
+
+  it('should reject references that could escape the directory', async () => {
+    await expect(store.get('../../etc/passwd')).rejects.toMatchObject({
+      code: ErrorCodes.BLOB_STORE_ERROR,
+      message: "Invalid blob reference '../../etc/passwd'",
+    });
+    await expect(store.delete('/tmp/x')).rejects.toMatchObject({ code: ErrorCodes.BLOB_STORE_ERROR });
+  });
+});
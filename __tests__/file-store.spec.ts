@@ -0,0 +1,160 @@
+/**
+ * @valianx/pubsub-lite - FileIdempotencyStore Tests
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdir, mkdtemp, readFile, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { FileIdempotencyStore } from '../src/idempotency/file-store.js';
+
+describe('FileIdempotencyStore', () => {
+  let dir: string;
+  let path: string;
+  let store: FileIdempotencyStore;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'pubsub-lite-'));
+    path = join(dir, 'nested', 'idempotency.log');
+    store = new FileIdempotencyStore({ path });
+  });
+
+  afterEach(async () => {
+    await store.close();
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  async function countLines(): Promise<number> {
+    const content = await readFile(path, 'utf8');
+    return content.split('\n').filter(Boolean).length;
+  }
+
+  describe('Basic Operations', () => {
+    it('should claim, complete and release keys', async () => {
+      expect(await store.tryClaim('key1')).toBe(true);
+      expect(await store.tryClaim('key1')).toBe(false);
+      expect(await store.getStatus('key1')).toBe('processing');
+
+      await store.markCompleted('key1');
+      expect(await store.getStatus('key1')).toBe('completed');
+
+      await store.tryClaim('key2');
+      await store.release('key2');
+      expect(await store.has('key2')).toBe(false);
+    });
+
+    it('should delete a key so it can be reprocessed', async () => {
+      await store.set('key1');
+      await store.delete('key1');
+
+      expect(await store.tryClaim('key1')).toBe(true);
+    });
+  });
+
+  describe('Persistence', () => {
+    it('should restore state after a restart', async () => {
+      await store.set('completed-key');
+      await store.tryClaim('leased-key');
+      await store.set('deleted-key');
+      await store.delete('deleted-key');
+      await store.close();
+
+      store = new FileIdempotencyStore({ path });
+
+      expect(await store.getStatus('completed-key')).toBe('completed');
+      expect(await store.getStatus('leased-key')).toBe('processing');
+      expect(await store.getStatus('deleted-key')).toBeNull();
+    });
+
+    it('should drop keys that expired while stopped', async () => {
+      await store.set('short-key', 50);
+      await store.set('long-key');
+      await store.close();
+      await new Promise((resolve) => setTimeout(resolve, 100));
+
+      store = new FileIdempotencyStore({ path });
+
+      expect(await store.has('short-key')).toBe(false);
+      expect(await store.has('long-key')).toBe(true);
+    });
+
+    it('should skip a torn last line', async () => {
+      await store.set('key1');
+      await store.close();
+      await writeFile(path, (await readFile(path, 'utf8')) + '{"k":"key2","s":"compl', 'utf8');
+
+      store = new FileIdempotencyStore({ path });
+
+      expect(await store.has('key1')).toBe(true);
+      expect(await store.has('key2')).toBe(false);
+
+      // Records written after the reload must not be glued onto the torn line
+      await store.set('key3');
+      await store.close();
+      store = new FileIdempotencyStore({ path });
+
+      expect(await store.has('key1')).toBe(true);
+      expect(await store.has('key3')).toBe(true);
+    });
+  });
+
+  describe('Compaction', () => {
+    it('should rewrite the log with only live keys', async () => {
+      await store.close();
+      store = new FileIdempotencyStore({ path, compactionThreshold: 10 });
+
+      for (let i = 0; i < 6; i++) {
+        await store.tryClaim(`key${i}`);
+        await store.release(`key${i}`);
+      }
+      await store.set('survivor');
+
+      expect(await countLines()).toBeLessThanOrEqual(10);
+      await store.close();
+
+      store = new FileIdempotencyStore({ path });
+      expect(await store.has('survivor')).toBe(true);
+      expect(await store.has('key0')).toBe(false);
+    });
+  });
+
+  describe('Stats', () => {
+    it('should report key counts and operation counters', async () => {
+      await store.set('key1');
+      await store.tryClaim('key2');
+      await store.has('key1');
+
+      const stats = await store.getStats();
+
+      expect(stats.totalKeys).toBe(2);
+      expect(stats.successfulChecks).toBe(3);
+      expect(stats.failedChecks).toBe(0);
+      expect(stats.connectionStatus).toBe('connected');
+    });
+
+    it('should surface write failures and keep memory consistent', async () => {
+      await store.has('warm-up');
+      // A directory where the log file should be makes every append fail
+      await mkdir(path);
+
+      await expect(store.tryClaim('key1')).rejects.toThrow();
+      expect(await store.has('key1')).toBe(false);
+
+      const stats = await store.getStats();
+      expect(stats.connectionStatus).toBe('error');
+      expect(stats.failedChecks).toBe(1);
+      expect(stats.lastError).toContain('EISDIR');
+    });
+
+    it('should reject operations when the log cannot be loaded', async () => {
+      const unreadablePath = join(dir, 'unreadable');
+      await mkdir(unreadablePath);
+      const badStore = new FileIdempotencyStore({ path: unreadablePath });
+
+      await expect(badStore.has('key1')).rejects.toThrow();
+      expect((await badStore.getStats()).connectionStatus).toBe('error');
+
+      await badStore.close();
+    });
+  });
+});
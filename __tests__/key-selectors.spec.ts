@@ -0,0 +1,118 @@
+/**
+ * @valianx/pubsub-lite - Idempotency Key Selector Tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import type { Message } from '@google-cloud/pubsub';
+import {
+  byAttribute,
+  byJsonPath,
+  byMessageId,
+  byPayloadHash,
+  withPrefix,
+} from '../src/idempotency/key-selectors.js';
+
+function createMessage(attributes: Record<string, string> = {}, id = 'message-1'): Message {
+  return { id, data: Buffer.from('<wire bytes>'), attributes } as any;
+}
+
+describe('Idempotency Key Selectors', () => {
+  describe('byMessageId', () => {
+    it('should use the message ID', () => {
+      expect(byMessageId()(createMessage(), {})).toBe('message-1');
+    });
+  });
+
+  describe('byAttribute', () => {
+    it('should read the named attribute', () => {
+      const selector = byAttribute('idempotencyKey');
+
+      expect(selector(createMessage({ idempotencyKey: 'order-42' }), {})).toBe('order-42');
+    });
+
+    it('should fall back to the message ID when the attribute is missing or empty', () => {
+      const selector = byAttribute('idempotencyKey');
+
+      expect(selector(createMessage(), {})).toBe('message-1');
+      expect(selector(createMessage({ idempotencyKey: '' }), {})).toBe('message-1');
+    });
+
+    it('should use a custom fallback', () => {
+      const selector = byAttribute('idempotencyKey', { fallback: byJsonPath('order.id') });
+
+      expect(selector(createMessage(), { order: { id: 'o-1' } })).toBe('o-1');
+    });
+  });
+
+  describe('byPayloadHash', () => {
+    it('should hash equivalent payloads identically regardless of key order', () => {
+      const selector = byPayloadHash();
+
+      const first = selector(createMessage({}, 'id-1'), { a: 1, b: { c: 2, d: [1, 2] } });
+      const second = selector(createMessage({}, 'id-2'), { b: { d: [1, 2], c: 2 }, a: 1 });
+
+      expect(first).toBe(second);
+      expect(first).toMatch(/^[0-9a-f]{64}$/);
+    });
+
+    it('should distinguish different payloads', () => {
+      const selector = byPayloadHash();
+
+      expect(selector(createMessage(), { a: 1 })).not.toBe(selector(createMessage(), { a: 2 }));
+      expect(selector(createMessage(), { list: [1, 2] })).not.toBe(selector(createMessage(), { list: [2, 1] }));
+    });
+
+    it('should hash the decoded payload, not the bytes on the wire', () => {
+      const selector = byPayloadHash();
+      const first = { ...createMessage(), data: Buffer.from('ciphertext-1') } as Message;
+      const second = { ...createMessage(), data: Buffer.from('ciphertext-2') } as Message;
+
+      expect(selector(first, { orderId: 'A' })).toBe(selector(second, { orderId: 'A' }));
+    });
+
+    it('should hash binary payloads byte for byte', () => {
+      const selector = byPayloadHash();
+
+      expect(selector(createMessage(), Buffer.from([1, 2]))).toBe(selector(createMessage({}, 'other'), Buffer.from([1, 2])));
+      expect(selector(createMessage(), Buffer.from([1, 2]))).not.toBe(selector(createMessage(), Buffer.from([2, 1])));
+    });
+
+    it('should hash values codecs produce beyond JSON', () => {
+      const selector = byPayloadHash();
+      const payload = { amount: 10n, at: new Date(0), raw: Buffer.from('x'), note: undefined };
+
+      expect(() => selector(createMessage(), payload)).not.toThrow();
+      expect(selector(createMessage(), payload)).toBe(
+        selector(createMessage(), { raw: Buffer.from('x'), at: new Date(0), amount: 10n })
+      );
+    });
+  });
+
+  describe('byJsonPath', () => {
+    it('should extract a nested value', () => {
+      expect(byJsonPath('order.id')(createMessage(), { order: { id: 'o-1' } })).toBe('o-1');
+    });
+
+    it('should support array indexes and encode non-string values', () => {
+      expect(byJsonPath('items.0.sku')(createMessage(), { items: [{ sku: 7 }] })).toBe('7');
+    });
+
+    it('should fall back when the path is missing, null or the payload is not an object', () => {
+      const selector = byJsonPath('order.id');
+
+      expect(selector(createMessage(), {})).toBe('message-1');
+      expect(selector(createMessage(), { order: null })).toBe('message-1');
+      expect(selector(createMessage(), { order: { id: null } })).toBe('message-1');
+      expect(selector(createMessage(), 'plain text')).toBe('message-1');
+    });
+  });
+
+  describe('withPrefix', () => {
+    it('should prefix the inner selector key', () => {
+      const selector = withPrefix('orders-sub', byJsonPath('order.id'));
+
+      expect(selector(createMessage(), { order: { id: 'o-1' } })).toBe('orders-sub:o-1');
+      expect(selector(createMessage(), {})).toBe('orders-sub:message-1');
+    });
+  });
+});
@@ -0,0 +1,177 @@
+/**
+ * @valianx/pubsub-lite - Pub/Sub Limits Tests
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import type { PubSub } from '@google-cloud/pubsub';
+import { assertWithinLimits, normalizeAttributes } from '../src/limits.js';
+import { createPublisher } from '../src/publisher.js';
+import { binaryCodec } from '../src/codecs.js';
+import { eventRegistry } from '../src/events.js';
+import { ErrorCodes, PubSubLimits } from '../src/types.js';
+import type { BlobStore, PublishLimitReason } from '../src/types.js';
+import { PublishLimitError } from '../src/errors.js';
+
+describe('Pub/Sub limits', () => {
+  function reasonOf(fn: () => void): PublishLimitReason | undefined {
+    try {
+      fn();
+      return undefined;
+    } catch (error) {
+      expect(error).toBeInstanceOf(PublishLimitError);
+      expect(error).toMatchObject({ code: ErrorCodes.PUBLISH_ERROR });
+      return (error as PublishLimitError).reason;
+    }
+  }
+
+  describe('normalizeAttributes', () => {
+    it('should stringify numbers, booleans and bigints', () => {
+      expect(normalizeAttributes({ a: 'x', b: 3, c: false, d: 10n })).toEqual({ a: 'x', b: '3', c: 'false', d: '10' });
+    });
+
+    it.each([
+      ['undefined', undefined],
+      ['null', null],
+      ['an object', { id: 1 }],
+      ['an array', ['a']],
+      ['NaN', Number.NaN],
+    ])('should reject %s', (_, value) => {
+      expect(() => normalizeAttributes({ userId: value })).toThrow(PublishLimitError);
+      expect(reasonOf(() => normalizeAttributes({ userId: value }))).toBe('attributeValue');
+    });
+
+    it('should name the attribute and the value type', () => {
+      expect(() => normalizeAttributes({ tenant: { id: 1 } })).toThrow("Attribute 'tenant' must be a string, got object");
+    });
+  });
+
+  describe('assertWithinLimits', () => {
+    const data = Buffer.from('{}');
+
+    it('should accept messages at the limits', () => {
+      const attributes = Object.fromEntries(
+        Array.from({ length: PubSubLimits.MAX_ATTRIBUTES }, (_, i) => [`k${i}`, 'v'.repeat(PubSubLimits.MAX_ATTRIBUTE_VALUE_BYTES)])
+      );
+
+      expect(() => assertWithinLimits({ data, attributes })).not.toThrow();
+      expect(() => assertWithinLimits({ data, attributes: { ['k'.repeat(256)]: 'v' }, orderingKey: 'o'.repeat(1024) }))
+        .not.toThrow();
+    });
+
+    it('should reject too many attributes', () => {
+      const attributes = Object.fromEntries(Array.from({ length: 101 }, (_, i) => [`k${i}`, 'v']));
+
+      expect(() => assertWithinLimits({ data, attributes })).toThrow('Message has 101 attributes, over the limit of 100');
+    });
+
+    it('should reject empty, oversized and reserved attribute keys', () => {
+      expect(reasonOf(() => assertWithinLimits({ data, attributes: { '': 'v' } }))).toBe('attributeKey');
+      expect(reasonOf(() => assertWithinLimits({ data, attributes: { googTrace: 'v' } }))).toBe('attributeKey');
+      expect(() => assertWithinLimits({ data, attributes: { ['é'.repeat(129)]: 'v' } })).toThrow('is 258 bytes, over the limit of 256');
+    });
+
+    it('should reject oversized attribute values and ordering keys', () => {
+      expect(() => assertWithinLimits({ data, attributes: { trace: 'v'.repeat(1025) } }))
+        .toThrow("Attribute 'trace' is 1025 bytes, over the limit of 1024");
+      expect(reasonOf(() => assertWithinLimits({ data, attributes: {}, orderingKey: 'o'.repeat(1025) }))).toBe('orderingKey');
+    });
+
+    it('should count attributes toward the message size', () => {
+      const big = Buffer.alloc(PubSubLimits.MAX_MESSAGE_BYTES - 4);
+
+      expect(() => assertWithinLimits({ data: big, attributes: { ab: 'cd' } })).not.toThrow();
+      expect(() => assertWithinLimits({ data: big, attributes: { ab: 'cde' } })).toThrow(
+        'Message is 10485761 bytes (data 10485756, attributes 5), over the limit of 10485760'
+      );
+    });
+
+    it('should reject messages without data or attributes', () => {
+      expect(reasonOf(() => assertWithinLimits({ data: Buffer.alloc(0), attributes: {} }))).toBe('emptyMessage');
+    });
+  });
+
+  describe('Publisher', () => {
+    let mockClient: PubSub;
+    let mockPublishMessage: ReturnType<typeof vi.fn>;
+
+    beforeEach(() => {
+      eventRegistry.clear();
+      mockPublishMessage = vi.fn().mockResolvedValue('message-id-123');
+      mockClient = {
+        topic: vi.fn().mockReturnValue({ publishMessage: mockPublishMessage, publisher: { settings: {} } }),
+      } as any;
+    });
+
+    it('should coerce non-string attribute values before publishing', async () => {
+      const publisher = createPublisher(mockClient, 'orders', { attributesDefaults: { region: 7 } as any });
+
+      await publisher.publish({ orderId: 'o-1' }, { retries: 3, urgent: true } as any);
+
+      expect(mockPublishMessage.mock.calls[0]![0].attributes).toMatchObject({
+        region: '7',
+        retries: '3',
+        urgent: 'true',
+      });
+    });
+
+    it('should fail without sending or retrying when a limit is broken', async () => {
+      const onPublishError = vi.fn();
+      const onPublishFailure = vi.fn();
+      const publisher = createPublisher(mockClient, 'exports', {
+        codec: binaryCodec,
+        retry: { initialDelayMs: 1 },
+        hooks: { onPublishError, onPublishFailure },
+      });
+      const payload = Buffer.alloc(PubSubLimits.MAX_MESSAGE_BYTES);
+
+      await expect(publisher.publish(payload)).rejects.toMatchObject({
+        name: 'PublishLimitError',
+        code: ErrorCodes.PUBLISH_ERROR,
+        reason: 'messageSize',
+      });
+      expect(mockPublishMessage).not.toHaveBeenCalled();
+      expect(onPublishError).not.toHaveBeenCalled();
+      // Identity rather than deep equality: comparing 10MB buffers exhausts the heap
+      const [error, failedData, attempts, retryable] = onPublishFailure.mock.calls[0]!;
+      expect(error).toBeInstanceOf(PublishLimitError);
+      expect(failedData).toBe(payload);
+      expect(attempts).toBe(0);
+      expect(retryable).toBe(false);
+    });
+
+    it('should reject attribute values that cannot be coerced', async () => {
+      const onPublishFailure = vi.fn();
+      const publisher = createPublisher(mockClient, 'orders', { hooks: { onPublishFailure } });
+
+      await expect(publisher.publish({}, { userId: undefined } as any)).rejects.toThrow(
+        "Attribute 'userId' must be a string, got undefined"
+      );
+      expect(mockPublishMessage).not.toHaveBeenCalled();
+      expect(onPublishFailure).toHaveBeenCalledWith(expect.any(PublishLimitError), {}, 0, false);
+    });
+
+    it('should check the ordering key', async () => {
+      const publisher = createPublisher<{ id: string }>(mockClient, 'orders', { orderingKeySelector: (data) => data.id });
+
+      await expect(publisher.publish({ id: 'x'.repeat(2000) })).rejects.toMatchObject({ reason: 'orderingKey' });
+      await publisher.publish({ id: 'o-1' });
+
+      expect(mockPublishMessage).toHaveBeenCalledTimes(1);
+      expect(mockPublishMessage.mock.calls[0]![0].orderingKey).toBe('o-1');
+    });
+
+    it('should delete the offloaded payload when the message breaks a limit', async () => {
+      const store: BlobStore = {
+        put: vi.fn().mockResolvedValue('ref-1'),
+        get: vi.fn(),
+        delete: vi.fn().mockResolvedValue(undefined),
+      };
+      const publisher = createPublisher(mockClient, 'exports', { claimCheck: { store, threshold: 1 } });
+
+      await expect(publisher.publish({ rows: [1, 2, 3] }, { googRegion: 'eu' })).rejects.toMatchObject({
+        reason: 'attributeKey',
+      });
+      expect(store.delete).toHaveBeenCalledWith('ref-1');
+    });
+  });
+});
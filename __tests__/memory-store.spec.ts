@@ -56,6 +56,167 @@ describe('InMemoryIdempotencyStore', () => {
     });
   });
 
+  describe('Lifecycle States', () => {
+    it('should report processing status while a lease is held', async () => {
+      await store.tryClaim('test-key');
+
+      expect(await store.getStatus('test-key')).toBe('processing');
+      expect(await store.has('test-key')).toBe(true);
+    });
+
+    it('should promote a lease to completed', async () => {
+      await store.tryClaim('test-key');
+      await store.markCompleted('test-key');
+
+      expect(await store.getStatus('test-key')).toBe('completed');
+    });
+
+    it('should treat set as completion', async () => {
+      await store.set('test-key');
+
+      expect(await store.getStatus('test-key')).toBe('completed');
+    });
+
+    it('should release a processing lease', async () => {
+      await store.tryClaim('test-key');
+      await store.release('test-key');
+
+      expect(await store.getStatus('test-key')).toBeNull();
+    });
+
+    it('should only let one caller claim a key', async () => {
+      const results = await Promise.all([
+        store.tryClaim('test-key'),
+        store.tryClaim('test-key'),
+        store.tryClaim('test-key'),
+      ]);
+
+      expect(results.filter(Boolean)).toHaveLength(1);
+    });
+
+    it('should not claim a completed key', async () => {
+      await store.markCompleted('test-key');
+
+      expect(await store.tryClaim('test-key')).toBe(false);
+    });
+
+    it('should not release a completed key', async () => {
+      await store.markCompleted('test-key');
+      await store.release('test-key');
+
+      expect(await store.getStatus('test-key')).toBe('completed');
+    });
+
+    it('should expire the lease independently of the completed TTL', async () => {
+      vi.useFakeTimers();
+
+      await store.tryClaim('test-key', 100);
+      vi.advanceTimersByTime(150);
+      expect(await store.getStatus('test-key')).toBeNull();
+
+      vi.useRealTimers();
+    });
+  });
+
+  describe('Delete and Stats', () => {
+    it('should delete a completed key', async () => {
+      await store.markCompleted('test-key');
+      await store.delete('test-key');
+
+      expect(await store.has('test-key')).toBe(false);
+    });
+
+    it('should report key counts and operation counters', async () => {
+      await store.set('key1');
+      await store.tryClaim('key2');
+      await store.has('key1');
+
+      const stats = await store.getStats();
+
+      expect(stats.totalKeys).toBe(2);
+      expect(stats.successfulChecks).toBe(3);
+      expect(stats.failedChecks).toBe(0);
+      expect(stats.memoryUsage).toBeGreaterThan(0);
+      expect(stats.connectionStatus).toBe('connected');
+    });
+
+    it('should exclude expired keys from stats', async () => {
+      vi.useFakeTimers();
+
+      await store.set('key1', 100);
+      vi.advanceTimersByTime(150);
+
+      expect((await store.getStats()).totalKeys).toBe(0);
+
+      vi.useRealTimers();
+    });
+
+    it('should report disconnected after close', async () => {
+      await store.close();
+
+      expect((await store.getStats()).connectionStatus).toBe('disconnected');
+    });
+  });
+
+  describe('LRU Mode', () => {
+    it('should evict the least recently used key when full', async () => {
+      const onEvict = vi.fn();
+      const bounded = new InMemoryIdempotencyStore({ maxEntries: 2, onEvict });
+
+      await bounded.set('key1');
+      await bounded.set('key2');
+      // Reading key1 makes key2 the least recently used
+      await bounded.has('key1');
+      await bounded.set('key3');
+
+      expect(await bounded.has('key1')).toBe(true);
+      expect(await bounded.has('key2')).toBe(false);
+      expect(await bounded.has('key3')).toBe(true);
+      expect(onEvict).toHaveBeenCalledWith('key2', 'completed');
+      expect(bounded.size()).toBe(2);
+
+      await bounded.close();
+    });
+
+    it('should report evictions through getStats', async () => {
+      const bounded = new InMemoryIdempotencyStore({ maxEntries: 1 });
+
+      await bounded.tryClaim('key1');
+      await bounded.tryClaim('key2');
+      await bounded.tryClaim('key3');
+
+      const stats = await bounded.getStats();
+      expect(stats.evictions).toBe(2);
+      expect(stats.totalKeys).toBe(1);
+
+      await bounded.close();
+    });
+
+    it('should keep writing when the eviction callback throws', async () => {
+      const bounded = new InMemoryIdempotencyStore({
+        maxEntries: 1,
+        onEvict: () => {
+          throw new Error('Callback failed');
+        },
+      });
+
+      await bounded.set('key1');
+      await expect(bounded.set('key2')).resolves.toBeUndefined();
+      expect(await bounded.has('key2')).toBe(true);
+
+      await bounded.close();
+    });
+
+    it('should stay unbounded without maxEntries', async () => {
+      for (let i = 0; i < 100; i++) {
+        await store.set(`key${i}`);
+      }
+
+      expect(store.size()).toBe(100);
+      expect((await store.getStats()).evictions).toBe(0);
+    });
+  });
+
   describe('Cleanup', () => {
     it('should cleanup expired entries', async () => {
       vi.useFakeTimers();
@@ -0,0 +1,107 @@
+/**
+ * @valianx/pubsub-lite - Protobuf Codec Tests
+ */
+
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { mkdtemp, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { createProtobufCodec } from '../src/schema/protobuf.js';
+import { ErrorCodes } from '../src/types.js';
+
+const ORDER_PROTO = `
+syntax = "proto3";
+package orders.v1;
+
+enum Status {
+  STATUS_UNSPECIFIED = 0;
+  STATUS_PAID = 1;
+}
+
+message Customer {
+  string name = 1;
+}
+
+message OrderCreated {
+  int64 id = 1;
+  Customer customer = 2;
+  Status status = 3;
+  repeated string tags = 4;
+}
+`;
+
+const order = { id: '9007199254740993', customer: { name: 'Ada' }, status: 'STATUS_PAID', tags: ['vip'] };
+
+describe('createProtobufCodec', () => {
+  let dir: string;
+  let protoPath: string;
+
+  beforeAll(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'pubsub-lite-proto-'));
+    protoPath = join(dir, 'order.proto');
+    await writeFile(protoPath, ORDER_PROTO);
+  });
+
+  afterAll(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it('should round-trip messages in binary encoding', async () => {
+    const codec = await createProtobufCodec({ protoPath, messageType: 'orders.v1.OrderCreated' });
+
+    expect(codec.contentType).toBe('application/protobuf');
+    expect(codec.decode(codec.encode(order))).toEqual(order);
+  });
+
+  it('should accept enum numbers and numeric 64-bit integers', async () => {
+    const codec = await createProtobufCodec({ protoPath, messageType: 'orders.v1.OrderCreated' });
+
+    const decoded = codec.decode(codec.encode({ id: 42, status: 1 }));
+
+    expect(decoded).toEqual({ id: '42', status: 'STATUS_PAID' });
+  });
+
+  it('should round-trip messages in proto3 JSON encoding', async () => {
+    const codec = await createProtobufCodec({
+      protoPath,
+      messageType: 'orders.v1.OrderCreated',
+      encoding: 'json',
+    });
+
+    const encoded = codec.encode(order);
+
+    expect(codec.contentType).toBe('application/protobuf+json');
+    expect(JSON.parse(encoded.toString('utf8'))).toEqual(order);
+    expect(codec.decode(encoded)).toEqual(order);
+  });
+
+  it('should raise SCHEMA_ERROR for undeclared fields', async () => {
+    const codec = await createProtobufCodec({ protoPath, messageType: 'orders.v1.OrderCreated' });
+
+    expect(() => codec.encode({ id: 1, customer: { name: 'Ada', email: 'x' } })).toThrow(
+      expect.objectContaining({ code: ErrorCodes.SCHEMA_ERROR, message: expect.stringContaining('customer.email') })
+    );
+  });
+
+  it('should raise SCHEMA_ERROR for mistyped values', async () => {
+    const codec = await createProtobufCodec({ protoPath, messageType: 'orders.v1.OrderCreated' });
+
+    expect(() => codec.encode({ customer: 'Ada' })).toThrow(
+      expect.objectContaining({ code: ErrorCodes.SCHEMA_ERROR })
+    );
+  });
+
+  it('should raise SCHEMA_ERROR for malformed binary payloads', async () => {
+    const codec = await createProtobufCodec({ protoPath, messageType: 'orders.v1.OrderCreated' });
+
+    expect(() => codec.decode(Buffer.from('garbage data!!'))).toThrow(
+      expect.objectContaining({ code: ErrorCodes.SCHEMA_ERROR })
+    );
+  });
+
+  it('should raise INVALID_CONFIG for an unknown message type', async () => {
+    await expect(createProtobufCodec({ protoPath, messageType: 'orders.v1.Missing' })).rejects.toMatchObject({
+      code: ErrorCodes.INVALID_CONFIG,
+    });
+  });
+});
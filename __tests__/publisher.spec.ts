@@ -2,8 +2,12 @@
  * @valianx/pubsub-lite - Publisher Tests
  */
 
-import { describe, it, expect, vi, beforeEach } from 'vitest';
-import { createPublisher } from '../src/publisher.js';
+import { describe, it, expect, expectTypeOf, vi, beforeEach } from 'vitest';
+import { createPublisher, isRetryableError } from '../src/publisher.js';
+import { textCodec } from '../src/codecs.js';
+import { PayloadValidationError } from '../src/errors.js';
+import { ErrorCodes } from '../src/types.js';
+import type { Codec, JsonSchema } from '../src/types.js';
 import type { PubSub, Topic } from '@google-cloud/pubsub';
 
 describe('createPublisher', () => {
@@ -76,7 +80,7 @@ describe('createPublisher', () => {
       
       const publishCall = mockPublishMessage.mock.calls[0][0];
       expect(publishCall.data).toEqual(Buffer.from(JSON.stringify(data), 'utf8'));
-      expect(publishCall.attributes).toEqual({});
+      expect(publishCall.attributes).toEqual({ contentType: 'application/json' });
     });
 
     it('should publish a message with custom attributes', async () => {
@@ -89,7 +93,7 @@ describe('createPublisher', () => {
       expect(messageId).toBe('message-id-123');
       
       const publishCall = mockPublishMessage.mock.calls[0][0];
-      expect(publishCall.attributes).toEqual(attributes);
+      expect(publishCall.attributes).toEqual({ ...attributes, contentType: 'application/json' });
     });
 
     it('should merge default attributes with custom attributes', async () => {
@@ -111,6 +115,7 @@ describe('createPublisher', () => {
         source: 'test-service',
         version: '1.0',
         customAttr: 'value',
+        contentType: 'application/json',
       });
     });
 
@@ -132,6 +137,7 @@ describe('createPublisher', () => {
       expect(publishCall.attributes).toEqual({
         source: 'custom-service', // Custom overrides default
         version: '1.0',
+        contentType: 'application/json',
       });
     });
   });
@@ -220,6 +226,83 @@ describe('createPublisher', () => {
     });
   });
 
+  describe('Typed Payloads', () => {
+    interface Order {
+      orderId: string;
+      customerId: string;
+    }
+
+    it('should carry the payload type through publish, ordering keys and hooks', async () => {
+      const onPublishSuccess = vi.fn<[string, Order], void>();
+      const publisher = createPublisher<Order>(mockClient, 'test-topic', {
+        orderingKeySelector: (order) => order.customerId,
+        hooks: { onPublishSuccess },
+      });
+
+      expectTypeOf(publisher.publish).parameter(0).toEqualTypeOf<Order>();
+      await publisher.publish({ orderId: 'o-1', customerId: 'c-1' });
+
+      expect(mockPublishMessage.mock.calls[0][0].orderingKey).toBe('c-1');
+      expect(onPublishSuccess).toHaveBeenCalledWith('message-id-123', { orderId: 'o-1', customerId: 'c-1' });
+    });
+  });
+
+  describe('Validation', () => {
+    const schema: JsonSchema = { type: 'object', required: ['id'] };
+
+    it('should reject invalid payloads without publishing or retrying', async () => {
+      const onPublishFailure = vi.fn();
+      const publisher = createPublisher(mockClient, 'test-topic', {
+        validator: schema,
+        hooks: { onPublishFailure },
+      });
+
+      const result = publisher.publish({ name: 'no id' });
+
+      await expect(result).rejects.toBeInstanceOf(PayloadValidationError);
+      await expect(result).rejects.toMatchObject({
+        code: ErrorCodes.SCHEMA_ERROR,
+        issues: [{ path: 'id', message: 'is required' }],
+      });
+      expect(mockPublishMessage).not.toHaveBeenCalled();
+      expect(onPublishFailure).toHaveBeenCalledWith(expect.any(PayloadValidationError), { name: 'no id' }, 0, false);
+    });
+
+    it('should publish the validator output', async () => {
+      const publisher = createPublisher(mockClient, 'test-topic', {
+        validator: { parse: (data: any) => ({ ...data, status: 'new' }) },
+      });
+
+      await publisher.publish({ id: 'a' });
+
+      const publishCall = mockPublishMessage.mock.calls[0][0];
+      expect(JSON.parse(publishCall.data.toString())).toEqual({ id: 'a', status: 'new' });
+    });
+  });
+
+  describe('Codecs', () => {
+    it('should encode with the configured codec and set its content type', async () => {
+      const publisher = createPublisher(mockClient, 'test-topic', { codec: textCodec as Codec });
+
+      await publisher.publish('plain text');
+
+      const publishCall = mockPublishMessage.mock.calls[0][0];
+      expect(publishCall.data).toEqual(Buffer.from('plain text', 'utf8'));
+      expect(publishCall.attributes.contentType).toBe('text/plain');
+    });
+
+    it('should not let attributes override the codec content type', async () => {
+      const publisher = createPublisher(mockClient, 'test-topic', {
+        attributesDefaults: { contentType: 'text/plain' },
+      });
+
+      await publisher.publish({ a: 1 }, { contentType: 'application/xml' });
+
+      const publishCall = mockPublishMessage.mock.calls[0][0];
+      expect(publishCall.attributes.contentType).toBe('application/json');
+    });
+  });
+
   describe('Topic Access', () => {
     it('should provide access to underlying topic', () => {
       const publisher = createPublisher(mockClient, 'test-topic');
@@ -249,6 +332,23 @@ describe('createPublisher', () => {
 
       await expect(publisher.publish(data)).rejects.toThrow();
     });
+
+    it('should serialize once and not retry serialization errors', async () => {
+      const encode = vi.fn(() => {
+        throw new TypeError('Do not know how to serialize a BigInt');
+      });
+      const onPublishFailure = vi.fn();
+      const publisher = createPublisher(mockClient, 'test-topic', {
+        codec: { contentType: 'application/json', encode, decode: vi.fn() },
+        hooks: { onPublishFailure },
+      });
+
+      await expect(publisher.publish({ amount: 1n })).rejects.toThrow(TypeError);
+
+      expect(encode).toHaveBeenCalledTimes(1);
+      expect(mockPublishMessage).not.toHaveBeenCalled();
+      expect(onPublishFailure).toHaveBeenCalledWith(expect.any(TypeError), { amount: 1n }, 0, false);
+    });
   });
 
   describe('Phase 3 Enhancements', () => {
@@ -306,6 +406,78 @@ describe('createPublisher', () => {
       });
     });
 
+    describe('Error Classification', () => {
+      function grpcError(code: number, message: string): Error {
+        return Object.assign(new Error(message), { code });
+      }
+
+      it.each([
+        [3, 'INVALID_ARGUMENT'],
+        [5, 'NOT_FOUND'],
+        [7, 'PERMISSION_DENIED'],
+      ])('should not retry gRPC status %i (%s)', async (code, name) => {
+        mockPublishMessage.mockRejectedValue(grpcError(code, name));
+        const onPublishError = vi.fn();
+        const onPublishRetry = vi.fn();
+        const onPublishFailure = vi.fn();
+        const publisher = createPublisher(mockClient, 'test-topic', {
+          retry: { initialDelayMs: 1 },
+          hooks: { onPublishError, onPublishRetry, onPublishFailure },
+        });
+
+        await expect(publisher.publish({ message: 'test' })).rejects.toThrow(name);
+
+        expect(mockPublishMessage).toHaveBeenCalledTimes(1);
+        expect(onPublishError).toHaveBeenCalledWith(expect.any(Error), { message: 'test' }, 1, false);
+        expect(onPublishRetry).not.toHaveBeenCalled();
+        expect(onPublishFailure).toHaveBeenCalledWith(expect.any(Error), { message: 'test' }, 1, false);
+      });
+
+      it('should retry transient gRPC statuses and errors without a status', async () => {
+        mockPublishMessage
+          .mockRejectedValueOnce(grpcError(14, 'UNAVAILABLE'))
+          .mockRejectedValueOnce(grpcError(4, 'DEADLINE_EXCEEDED'))
+          .mockRejectedValueOnce(new Error('socket hang up'));
+        const publisher = createPublisher(mockClient, 'test-topic', { retry: { initialDelayMs: 1 } });
+
+        await expect(publisher.publish({ message: 'test' })).resolves.toBe('message-id-123');
+        expect(mockPublishMessage).toHaveBeenCalledTimes(4);
+      });
+
+      it('should use a custom isRetryable predicate', async () => {
+        mockPublishMessage.mockRejectedValue(grpcError(8, 'RESOURCE_EXHAUSTED'));
+        const isRetryable = vi.fn((error: unknown) => isRetryableError(error) && (error as { code?: unknown }).code !== 8);
+        const publisher = createPublisher(mockClient, 'test-topic', { retry: { initialDelayMs: 1, isRetryable } });
+
+        await expect(publisher.publish({ message: 'test' })).rejects.toThrow('RESOURCE_EXHAUSTED');
+
+        expect(isRetryable).toHaveBeenCalledWith(expect.objectContaining({ code: 8 }));
+        expect(mockPublishMessage).toHaveBeenCalledTimes(1);
+      });
+
+      it('should fall back to the default classification when the predicate throws', async () => {
+        const consoleWarnSpy = vi.spyOn(console, 'warn').mockImplementation(() => {});
+        mockPublishMessage.mockRejectedValue(grpcError(7, 'PERMISSION_DENIED'));
+        const publisher = createPublisher(mockClient, 'test-topic', {
+          retry: {
+            initialDelayMs: 1,
+            isRetryable: () => {
+              throw new Error('predicate bug');
+            },
+          },
+        });
+
+        await expect(publisher.publish({ message: 'test' })).rejects.toThrow('PERMISSION_DENIED');
+
+        expect(mockPublishMessage).toHaveBeenCalledTimes(1);
+        expect(consoleWarnSpy).toHaveBeenCalledWith(
+          '@valianx/pubsub-lite: retry.isRetryable failed:',
+          expect.objectContaining({ message: 'predicate bug' })
+        );
+        consoleWarnSpy.mockRestore();
+      });
+    });
+
     describe('Publisher Hooks', () => {
       it('should call onPublishStart and onPublishSuccess hooks', async () => {
         const onPublishStart = vi.fn();
@@ -355,7 +527,8 @@ describe('createPublisher', () => {
         expect(onPublishError).toHaveBeenCalledWith(
           expect.any(Error),
           data,
-          1
+          1,
+          true
         );
         expect(onPublishRetry).toHaveBeenCalledWith(
           expect.any(Error),
@@ -387,7 +560,8 @@ describe('createPublisher', () => {
         expect(onPublishFailure).toHaveBeenCalledWith(
           expect.any(Error),
           data,
-          2
+          2,
+          true
         );
       });
 
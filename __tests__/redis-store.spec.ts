@@ -0,0 +1,325 @@
+/**
+ * @valianx/pubsub-lite - RedisIdempotencyStore Tests
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+
+vi.mock('ioredis', async () => {
+  const RedisMock = await import('ioredis-mock');
+  return { default: RedisMock.default, Cluster: RedisMock.Cluster };
+});
+
+import Redis, { Cluster } from 'ioredis';
+import { RedisIdempotencyStore } from '../src/idempotency/redis-store.js';
+import { createIoredisOptions } from '../src/idempotency/redis-adapter.js';
+
+describe('RedisIdempotencyStore', () => {
+  let redis: Redis;
+  let store: RedisIdempotencyStore;
+
+  beforeEach(async () => {
+    redis = new Redis();
+    await redis.flushall();
+    store = new RedisIdempotencyStore({ client: redis, keyPrefix: 'test:idemp:' });
+  });
+
+  afterEach(async () => {
+    await store.close();
+    redis.disconnect();
+  });
+
+  describe('Basic Operations', () => {
+    it('should set and check key', async () => {
+      expect(await store.has('test-key')).toBe(false);
+
+      await store.set('test-key');
+
+      expect(await store.has('test-key')).toBe(true);
+      expect(await redis.get('test:idemp:test-key')).toBe('completed');
+    });
+
+    it('should treat legacy values as completed', async () => {
+      await redis.set('test:idemp:legacy-key', '1');
+
+      expect(await store.getStatus('legacy-key')).toBe('completed');
+    });
+  });
+
+  describe('Atomic Claims', () => {
+    it('should claim a new key with a lease TTL', async () => {
+      expect(await store.tryClaim('test-key', 5000)).toBe(true);
+
+      expect(await store.getStatus('test-key')).toBe('processing');
+      const ttl = await redis.pttl('test:idemp:test-key');
+      expect(ttl).toBeGreaterThan(0);
+      expect(ttl).toBeLessThanOrEqual(5000);
+    });
+
+    it('should let exactly one of many concurrent claims win', async () => {
+      const results = await Promise.all(
+        Array.from({ length: 10 }, () => store.tryClaim('test-key'))
+      );
+
+      expect(results.filter(Boolean)).toHaveLength(1);
+    });
+
+    it('should let exactly one replica win a redelivered message', async () => {
+      const otherReplica = new RedisIdempotencyStore({ client: redis, keyPrefix: 'test:idemp:' });
+
+      const [first, second] = await Promise.all([
+        store.tryClaim('test-key'),
+        otherReplica.tryClaim('test-key'),
+      ]);
+
+      expect([first, second].sort()).toEqual([false, true]);
+    });
+
+    it('should not claim a completed key', async () => {
+      await store.markCompleted('test-key');
+
+      expect(await store.tryClaim('test-key')).toBe(false);
+    });
+
+    it('should allow a new claim after release', async () => {
+      await store.tryClaim('test-key');
+      await store.release('test-key');
+
+      expect(await store.tryClaim('test-key')).toBe(true);
+    });
+
+    it('should not release a completed key', async () => {
+      await store.markCompleted('test-key');
+      await store.release('test-key');
+
+      expect(await store.getStatus('test-key')).toBe('completed');
+    });
+  });
+
+  describe('Delete and Stats', () => {
+    it('should delete a key so the message can be reprocessed', async () => {
+      await store.markCompleted('test-key');
+      await store.delete('test-key');
+
+      expect(await store.tryClaim('test-key')).toBe(true);
+    });
+
+    it('should count only keys under the store prefix', async () => {
+      await store.set('key1');
+      await store.tryClaim('key2');
+      await redis.set('other:prefix:key3', '1');
+
+      const stats = await store.getStats();
+
+      expect(stats.totalKeys).toBe(2);
+      expect(stats.successfulChecks).toBe(2);
+      expect(stats.failedChecks).toBe(0);
+    });
+
+    it('should track failed operations and the last error', async () => {
+      vi.spyOn(redis, 'get').mockRejectedValueOnce(new Error('Connection lost'));
+
+      await expect(store.has('test-key')).rejects.toThrow('Connection lost');
+      const stats = await store.getStats();
+
+      expect(stats.failedChecks).toBe(1);
+      expect(stats.lastError).toBe('Connection lost');
+    });
+
+    it('should take connection status from client events', async () => {
+      redis.emit('error', new Error('ECONNREFUSED'));
+      expect((await store.getStats()).connectionStatus).toBe('error');
+      expect((await store.getStats()).lastError).toBe('ECONNREFUSED');
+
+      redis.emit('ready');
+      expect((await store.getStats()).connectionStatus).toBe('connected');
+
+      redis.emit('end');
+      expect((await store.getStats()).connectionStatus).toBe('disconnected');
+    });
+  });
+
+  describe('Client Ownership', () => {
+    it('should not quit an external client on close', async () => {
+      const quitSpy = vi.spyOn(redis, 'quit');
+
+      await store.close();
+
+      expect(quitSpy).not.toHaveBeenCalled();
+    });
+  });
+});
+
+describe('RedisIdempotencyStore with Redis Cluster', () => {
+  it('should accept an existing Cluster client', async () => {
+    const cluster = new Cluster([{ host: 'node-1', port: 7000 }]);
+    const store = new RedisIdempotencyStore({ client: cluster, keyPrefix: 'cluster:idemp:' });
+
+    expect(await store.tryClaim('test-key')).toBe(true);
+    expect(await store.tryClaim('test-key')).toBe(false);
+
+    await store.close();
+    cluster.disconnect();
+  });
+
+  it('should create a Cluster client from startup nodes', async () => {
+    const store = new RedisIdempotencyStore({
+      cluster: { nodes: [{ host: 'node-1', port: 7000 }] },
+      keyPrefix: 'created:idemp:',
+    });
+
+    await store.set('test-key');
+    expect(await store.getStatus('test-key')).toBe('completed');
+
+    await store.close();
+  });
+
+  it('should count keys on every master', async () => {
+    const cluster = new Cluster([{ host: 'node-1', port: 7000 }]);
+    const masterA = new Redis({ host: 'master-a', port: 7001 });
+    const masterB = new Redis({ host: 'master-b', port: 7002 });
+    await masterA.set('cluster:idemp:key1', 'completed');
+    await masterB.set('cluster:idemp:key2', 'completed');
+    await masterB.set('cluster:idemp:key3', 'processing');
+    (cluster as any).nodes = vi.fn(() => [masterA, masterB]);
+    const store = new RedisIdempotencyStore({ client: cluster, keyPrefix: 'cluster:idemp:' });
+
+    const stats = await store.getStats();
+
+    expect((cluster as any).nodes).toHaveBeenCalledWith('master');
+    expect(stats.totalKeys).toBe(3);
+
+    cluster.disconnect();
+    masterA.disconnect();
+    masterB.disconnect();
+  });
+});
+
+describe('RedisIdempotencyStore with node-redis client', () => {
+  let data: Map<string, string>;
+  let client: {
+    isOpen: boolean;
+    isReady: boolean;
+    on: ReturnType<typeof vi.fn>;
+    exists: ReturnType<typeof vi.fn>;
+    get: ReturnType<typeof vi.fn>;
+    set: ReturnType<typeof vi.fn>;
+    del: ReturnType<typeof vi.fn>;
+    eval: ReturnType<typeof vi.fn>;
+    scan: ReturnType<typeof vi.fn>;
+    quit: ReturnType<typeof vi.fn>;
+  };
+  let store: RedisIdempotencyStore;
+
+  beforeEach(() => {
+    data = new Map();
+    // Stub of the node-redis v4 API backed by a Map
+    client = {
+      isOpen: true,
+      isReady: true,
+      on: vi.fn(),
+      exists: vi.fn(async (key: string) => (data.has(key) ? 1 : 0)),
+      get: vi.fn(async (key: string) => data.get(key) ?? null),
+      set: vi.fn(async (key: string, value: string, options: { PX: number; NX?: true }) => {
+        if (options.NX && data.has(key)) {
+          return null;
+        }
+        data.set(key, value);
+        return 'OK';
+      }),
+      del: vi.fn(async (key: string) => (data.delete(key) ? 1 : 0)),
+      eval: vi.fn(async (_script: string, { keys, arguments: args }: { keys: string[]; arguments: string[] }) => {
+        if (data.get(keys[0]!) === args[0]) {
+          data.delete(keys[0]!);
+          return 1;
+        }
+        return 0;
+      }),
+      scan: vi.fn(async () => ({ cursor: 0, keys: [...data.keys()] })),
+      quit: vi.fn(async () => 'OK'),
+    };
+    store = new RedisIdempotencyStore({ client, keyPrefix: 'test:idemp:' });
+  });
+
+  it('should claim keys with SET NX PX options', async () => {
+    expect(await store.tryClaim('test-key', 5000)).toBe(true);
+    expect(await store.tryClaim('test-key', 5000)).toBe(false);
+
+    expect(client.set).toHaveBeenCalledWith('test:idemp:test-key', 'processing', { PX: 5000, NX: true });
+  });
+
+  it('should mark keys as completed with a PX TTL', async () => {
+    await store.markCompleted('test-key', 1000);
+
+    expect(client.set).toHaveBeenCalledWith('test:idemp:test-key', 'completed', { PX: 1000 });
+    expect(await store.getStatus('test-key')).toBe('completed');
+    expect(await store.has('test-key')).toBe(true);
+  });
+
+  it('should release leases through eval with keys and arguments', async () => {
+    await store.tryClaim('test-key');
+    await store.release('test-key');
+
+    expect(client.eval).toHaveBeenCalledWith(expect.any(String), {
+      keys: ['test:idemp:test-key'],
+      arguments: ['processing'],
+    });
+    expect(await store.getStatus('test-key')).toBeNull();
+  });
+
+  it('should count keys with the node-redis scan reply shape', async () => {
+    await store.set('key1');
+
+    const stats = await store.getStats();
+
+    expect(client.scan).toHaveBeenCalledWith(0, { MATCH: 'test:idemp:*', COUNT: 1000 });
+    expect(stats.totalKeys).toBe(1);
+    expect(stats.connectionStatus).toBe('connected');
+  });
+
+  it('should not close a client it does not own', async () => {
+    await store.close();
+
+    expect(client.quit).not.toHaveBeenCalled();
+  });
+
+  it('should reject unsupported client objects', () => {
+    expect(() => new RedisIdempotencyStore({ client: {} })).toThrow('Unsupported Redis client');
+  });
+});
+
+describe('createIoredisOptions', () => {
+  it('should apply fail-fast defaults', () => {
+    const config = createIoredisOptions({});
+
+    expect(config).toMatchObject({ lazyConnect: true, connectTimeout: 10000, commandTimeout: 2000 });
+    expect(config.retryStrategy).toBeUndefined();
+  });
+
+  it('should pass through timeouts, db and password', () => {
+    const config = createIoredisOptions({
+      url: 'redis://localhost:6379',
+      connectTimeout: 500,
+      commandTimeout: 100,
+      db: 3,
+      password: 'secret',
+    });
+
+    expect(config).toMatchObject({ connectTimeout: 500, commandTimeout: 100, db: 3, password: 'secret' });
+  });
+
+  it('should bound reconnects and per-command retries with maxRetries', () => {
+    const config = createIoredisOptions({ maxRetries: 3 });
+
+    expect(config.maxRetriesPerRequest).toBe(3);
+    expect(config.retryStrategy!(1)).toBe(100);
+    expect(config.retryStrategy!(3)).toBe(300);
+    expect(config.retryStrategy!(4)).toBeNull();
+  });
+
+  it('should disable retries when retryOnFailure is false', () => {
+    const config = createIoredisOptions({ retryOnFailure: false, maxRetries: 3 });
+
+    expect(config.maxRetriesPerRequest).toBe(0);
+    expect(config.retryStrategy!(1)).toBeNull();
+  });
+});
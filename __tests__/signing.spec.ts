@@ -0,0 +1,194 @@
+/**
+ * @valianx/pubsub-lite - Signing Tests
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import type { PubSub, Message } from '@google-cloud/pubsub';
+import { signPayload, verifySignature } from '../src/signing.js';
+import { createPublisher } from '../src/publisher.js';
+import { createConsumer } from '../src/consumer.js';
+import { InMemoryIdempotencyStore } from '../src/idempotency/memory-store.js';
+import { eventRegistry } from '../src/events.js';
+import { ErrorCodes } from '../src/types.js';
+import type { ConsumerOptions, PublisherOptions } from '../src/types.js';
+import { SignatureError } from '../src/errors.js';
+
+describe('Signing', () => {
+  const data = Buffer.from('{"amount":100}');
+  const attributes = { type: 'payment.created', source: 'billing' };
+  const signing = { keyId: 'k1', secret: 'first-secret' };
+
+  describe('signPayload / verifySignature', () => {
+    function signed(extra: Partial<typeof signing> & { attributes?: string[] } = {}): Record<string, string> {
+      return { ...attributes, ...signPayload(data, attributes, { ...signing, ...extra }) };
+    }
+
+    function reasonOf(fn: () => void): string | undefined {
+      try {
+        fn();
+        return undefined;
+      } catch (error) {
+        expect(error).toBeInstanceOf(SignatureError);
+        expect(error).toMatchObject({ code: ErrorCodes.SIGNATURE_ERROR });
+        return (error as SignatureError).reason;
+      }
+    }
+
+    it('should sign every attribute by default and verify', () => {
+      const message = signed();
+
+      expect(message).toMatchObject({
+        signature: expect.any(String),
+        signatureKeyId: 'k1',
+        signedAttributes: '["source","type"]',
+      });
+      expect(() => verifySignature(data, message, { k1: 'first-secret' })).not.toThrow();
+    });
+
+    it('should detect tampered payloads and signed attributes', () => {
+      const message = signed();
+
+      expect(reasonOf(() => verifySignature(Buffer.from('{"amount":999}'), message, { k1: 'first-secret' })))
+        .toBe('invalid');
+      expect(reasonOf(() => verifySignature(data, { ...message, type: 'refund' }, { k1: 'first-secret' })))
+        .toBe('invalid');
+      expect(reasonOf(() => verifySignature(data, { ...message, signedAttributes: '["source"]' }, { k1: 'first-secret' })))
+        .toBe('invalid');
+      expect(reasonOf(() => verifySignature(data, message, { k1: 'wrong-secret' }))).toBe('invalid');
+    });
+
+    it('should only protect the selected attributes', () => {
+      const message = signed({ attributes: ['type', 'missing'] });
+
+      expect(message.signedAttributes).toBe('["type"]');
+      expect(() => verifySignature(data, { ...message, source: 'other' }, { k1: 'first-secret' })).not.toThrow();
+    });
+
+    it('should report unsigned messages and unknown keys', () => {
+      expect(reasonOf(() => verifySignature(data, attributes, { k1: 'first-secret' }))).toBe('unsigned');
+      expect(reasonOf(() => verifySignature(data, signed(), { k2: 'second-secret' }))).toBe('unknownKey');
+      expect(reasonOf(() => verifySignature(data, signed({ keyId: 'constructor' }), {}))).toBe('unknownKey');
+    });
+
+    it('should accept any active key during a rotation', () => {
+      const keys = { k1: 'first-secret', k2: 'second-secret' };
+
+      expect(() => verifySignature(data, signed(), keys)).not.toThrow();
+      expect(() => verifySignature(data, signed({ keyId: 'k2', secret: 'second-secret' }), keys)).not.toThrow();
+    });
+
+    it('should reject incomplete signing config', () => {
+      expect(() => signPayload(data, attributes, { keyId: '', secret: 's' })).toThrow(
+        expect.objectContaining({ code: ErrorCodes.INVALID_CONFIG })
+      );
+      expect(() => signPayload(data, attributes, { keyId: 'k1', secret: '' })).toThrow(
+        expect.objectContaining({ code: ErrorCodes.INVALID_CONFIG })
+      );
+    });
+  });
+
+  describe('Publisher and Consumer', () => {
+    let mockClient: PubSub;
+    let mockPublishMessage: ReturnType<typeof vi.fn>;
+    let mockDeadLetterPublish: ReturnType<typeof vi.fn>;
+    let mockOn: ReturnType<typeof vi.fn>;
+
+    beforeEach(() => {
+      eventRegistry.clear();
+      mockPublishMessage = vi.fn().mockResolvedValue('message-id-123');
+      mockDeadLetterPublish = vi.fn().mockResolvedValue('dead-letter-id');
+      mockOn = vi.fn();
+      mockClient = {
+        topic: vi.fn((name: string) => ({
+          publishMessage: name === 'dead-letters' ? mockDeadLetterPublish : mockPublishMessage,
+          publisher: { settings: {} },
+        })),
+        subscription: vi.fn().mockReturnValue({ on: mockOn, removeListener: vi.fn(), close: vi.fn(), name: 'payments-sub' }),
+      } as any;
+    });
+
+    async function publishOne(payload: unknown, options: PublisherOptions): Promise<Message> {
+      await createPublisher(mockClient, 'payments', options).publish(payload);
+      return { id: 'message-1', ...mockPublishMessage.mock.calls.at(-1)![0], ack: vi.fn(), nack: vi.fn() } as any;
+    }
+
+    async function consumeOne(message: Message, options: ConsumerOptions) {
+      const handler = vi.fn();
+      const errorHandler = vi.fn();
+      const consumer = createConsumer(mockClient, 'payments-sub', options);
+      consumer.on('message', handler);
+      consumer.on('error', errorHandler);
+      consumer.start();
+      await mockOn.mock.calls.find(([name]) => name === 'message')![1](message);
+      return { handler, errorHandler };
+    }
+
+    it('should deliver messages signed by the publisher', async () => {
+      const message = await publishOne({ amount: 100 }, { signing, compression: { threshold: 0 } });
+
+      const { handler } = await consumeOne(message, { signatureVerification: { keys: { k1: 'first-secret' } } });
+
+      expect(handler).toHaveBeenCalledWith({ amount: 100 }, message);
+    });
+
+    it('should reject forged messages before the idempotency store', async () => {
+      const store = new InMemoryIdempotencyStore();
+      const tryClaim = vi.spyOn(store, 'tryClaim');
+      const message = await publishOne({ amount: 100 }, { signing });
+      message.data = Buffer.from('{"amount":999}');
+
+      const { handler, errorHandler } = await consumeOne(message, {
+        idempotencyEnabled: true,
+        idempotencyStore: store,
+        signatureVerification: { keys: { k1: 'first-secret' } },
+      });
+
+      expect(handler).not.toHaveBeenCalled();
+      expect(tryClaim).not.toHaveBeenCalled();
+      expect(message.nack).toHaveBeenCalled();
+      expect(errorHandler).toHaveBeenCalledWith(
+        expect.any(SignatureError),
+        expect.objectContaining({ phase: 'verify', metadata: { reason: 'invalid', keyId: 'k1', policy: 'nack' } })
+      );
+      await store.close();
+    });
+
+    it('should drop or dead-letter invalid messages per policy', async () => {
+      const unsigned = await publishOne({ amount: 100 }, {});
+      const forged = await publishOne({ amount: 100 }, { signing: { keyId: 'k1', secret: 'attacker' } });
+
+      await consumeOne(unsigned, { signatureVerification: { keys: { k1: 'first-secret' }, policy: 'ack' } });
+      mockOn.mockClear();
+      await consumeOne(forged, {
+        signatureVerification: { keys: { k1: 'first-secret' }, policy: 'deadLetter' },
+        deadLetterTopic: 'dead-letters',
+      });
+
+      expect(unsigned.ack).toHaveBeenCalled();
+      expect(forged.ack).toHaveBeenCalled();
+      expect(mockDeadLetterPublish).toHaveBeenCalledWith({
+        data: forged.data,
+        attributes: expect.objectContaining({ deadLetterReason: 'SIGNATURE_ERROR', originalMessageId: 'message-1' }),
+      });
+    });
+
+    it('should accept unsigned messages when signatures are optional, but not forged ones', async () => {
+      const unsigned = await publishOne({ amount: 100 }, {});
+      const forged = await publishOne({ amount: 100 }, { signing: { keyId: 'k1', secret: 'attacker' } });
+      const options = { signatureVerification: { keys: { k1: 'first-secret' }, requireSignature: false } };
+
+      const { handler } = await consumeOne(unsigned, options);
+      mockOn.mockClear();
+      const { handler: forgedHandler } = await consumeOne(forged, options);
+
+      expect(handler).toHaveBeenCalled();
+      expect(forgedHandler).not.toHaveBeenCalled();
+    });
+
+    it('should require a dead letter topic for the deadLetter policy', () => {
+      expect(() => createConsumer(mockClient, 'payments-sub', {
+        signatureVerification: { keys: {}, policy: 'deadLetter' },
+      })).toThrow(expect.objectContaining({ code: ErrorCodes.INVALID_CONFIG }));
+    });
+  });
+});
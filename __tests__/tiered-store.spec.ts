@@ -0,0 +1,135 @@
+/**
+ * @valianx/pubsub-lite - TieredIdempotencyStore Tests
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { TieredIdempotencyStore } from '../src/idempotency/tiered-store.js';
+import { InMemoryIdempotencyStore } from '../src/idempotency/memory-store.js';
+
+describe('TieredIdempotencyStore', () => {
+  let backing: InMemoryIdempotencyStore;
+  let store: TieredIdempotencyStore;
+
+  beforeEach(() => {
+    backing = new InMemoryIdempotencyStore();
+    store = new TieredIdempotencyStore(backing, { localTtl: 1000 });
+  });
+
+  afterEach(async () => {
+    await store.close();
+  });
+
+  describe('Write-through', () => {
+    it('should write completions to the backing store', async () => {
+      await store.markCompleted('test-key');
+
+      expect(await backing.getStatus('test-key')).toBe('completed');
+    });
+
+    it('should claim through the backing store', async () => {
+      expect(await store.tryClaim('test-key')).toBe(true);
+      expect(await backing.getStatus('test-key')).toBe('processing');
+      expect(await store.tryClaim('test-key')).toBe(false);
+    });
+
+    it('should release through the backing store', async () => {
+      await store.tryClaim('test-key');
+      await store.release('test-key');
+
+      expect(await backing.getStatus('test-key')).toBeNull();
+    });
+
+    it('should delete from both tiers', async () => {
+      await store.markCompleted('test-key');
+      await store.delete('test-key');
+
+      expect(await store.getStatus('test-key')).toBeNull();
+      expect(await backing.getStatus('test-key')).toBeNull();
+    });
+  });
+
+  describe('Local Cache', () => {
+    it('should answer repeat duplicates without the backing store', async () => {
+      await store.markCompleted('test-key');
+      const claimSpy = vi.spyOn(backing, 'tryClaim');
+      const statusSpy = vi.spyOn(backing, 'getStatus');
+
+      expect(await store.tryClaim('test-key')).toBe(false);
+      expect(await store.getStatus('test-key')).toBe('completed');
+
+      expect(claimSpy).not.toHaveBeenCalled();
+      expect(statusSpy).not.toHaveBeenCalled();
+      expect((await store.getStats()).cacheHits).toBe(2);
+    });
+
+    it('should cache completed keys read from the backing store', async () => {
+      await backing.markCompleted('test-key');
+
+      await store.getStatus('test-key');
+      const statusSpy = vi.spyOn(backing, 'getStatus');
+      await store.getStatus('test-key');
+
+      expect(statusSpy).not.toHaveBeenCalled();
+    });
+
+    it('should not cache processing leases', async () => {
+      await store.tryClaim('test-key');
+      const statusSpy = vi.spyOn(backing, 'getStatus');
+
+      expect(await store.getStatus('test-key')).toBe('processing');
+      expect(statusSpy).toHaveBeenCalled();
+    });
+
+    it('should stop trusting cached keys after the local TTL', async () => {
+      vi.useFakeTimers();
+      await store.markCompleted('test-key');
+      await backing.delete('test-key');
+
+      expect(await store.getStatus('test-key')).toBe('completed');
+      vi.advanceTimersByTime(1500);
+      expect(await store.getStatus('test-key')).toBeNull();
+
+      vi.useRealTimers();
+    });
+
+    it('should cap the local TTL by the completion TTL', async () => {
+      vi.useFakeTimers();
+      await store.markCompleted('test-key', 100);
+
+      vi.advanceTimersByTime(150);
+      expect(await store.getStatus('test-key')).toBeNull();
+
+      vi.useRealTimers();
+    });
+  });
+
+  describe('Backing Store Errors', () => {
+    it('should propagate claim errors', async () => {
+      vi.spyOn(backing, 'tryClaim').mockRejectedValue(new Error('Redis down'));
+
+      await expect(store.tryClaim('test-key')).rejects.toThrow('Redis down');
+    });
+
+    it('should not cache a completion the backing store rejected', async () => {
+      vi.spyOn(backing, 'markCompleted').mockRejectedValueOnce(new Error('Redis down'));
+
+      await expect(store.markCompleted('test-key')).rejects.toThrow('Redis down');
+      expect(await store.getStatus('test-key')).toBeNull();
+    });
+
+    it('should keep answering cached hits while the backing store is down', async () => {
+      await store.markCompleted('test-key');
+      vi.spyOn(backing, 'tryClaim').mockRejectedValue(new Error('Redis down'));
+
+      expect(await store.tryClaim('test-key')).toBe(false);
+    });
+  });
+
+  it('should close the backing store', async () => {
+    const closeSpy = vi.spyOn(backing, 'close');
+
+    await store.close();
+
+    expect(closeSpy).toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,127 @@
+/**
+ * @valianx/pubsub-lite - Upcasting Tests
+ */
+
+import { describe, it, expect, expectTypeOf, vi } from 'vitest';
+import type { Message } from '@google-cloud/pubsub';
+import { createUpcaster } from '../src/upcasting.js';
+import { ErrorCodes } from '../src/types.js';
+import type { EventDefinition, Upcaster, Upcasters } from '../src/types.js';
+import { UnsupportedVersionError } from '../src/errors.js';
+
+interface OrderV1 {
+  orderId: string;
+  amount: number;
+}
+interface OrderV2 extends OrderV1 {
+  currency: string;
+}
+interface OrderV3 {
+  orderId: string;
+  total: { amount: number; currency: string };
+}
+
+describe('createUpcaster', () => {
+  const toV2: Upcaster<OrderV1, OrderV2> = { from: '1', to: '2', upcast: (v1) => ({ ...v1, currency: 'USD' }) };
+  const toV3: Upcaster<OrderV2, OrderV3> = {
+    from: '2',
+    to: '3',
+    upcast: ({ amount, currency, ...rest }) => ({ ...rest, total: { amount, currency } }),
+  };
+  const upcasters: Upcasters = { 'order.created': [toV3, toV2] };
+
+  function createMessage(attributes: Record<string, string>): Message {
+    return { id: 'message-1', attributes } as any;
+  }
+
+  it('should upcast through every step to the latest version', async () => {
+    const upcast = createUpcaster(upcasters);
+
+    const result = await upcast({ orderId: 'o-1', amount: 10 }, createMessage({ type: 'order.created', version: '1' }));
+
+    expect(result).toEqual({ orderId: 'o-1', total: { amount: 10, currency: 'USD' } });
+  });
+
+  it('should pass through the latest version, unversioned payloads and other event types', async () => {
+    const upcast = createUpcaster(upcasters);
+    const payload = { orderId: 'o-1' };
+
+    expect(await upcast(payload, createMessage({ type: 'order.created', version: '3' }))).toBe(payload);
+    expect(await upcast(payload, createMessage({ type: 'order.created' }))).toBe(payload);
+    expect(await upcast(payload, createMessage({ type: 'order.cancelled', version: '1' }))).toBe(payload);
+  });
+
+  it('should type-check typed steps', () => {
+    const step: Upcaster<OrderV1, OrderV2> = {
+      from: '1',
+      to: '2',
+      // @ts-expect-error the v2 payload needs a currency
+      upcast: (v1) => ({ ...v1 }),
+    };
+
+    expectTypeOf(step.upcast).parameter(0).toEqualTypeOf<OrderV1>();
+  });
+
+  it('should support async upcasters and pass the message', async () => {
+    const step = vi.fn(async (data: { id: string }) => ({ ...data, migrated: true }));
+    const upcast = createUpcaster({ 'user.created': [{ from: '1', to: '2', upcast: step }] });
+    const message = createMessage({ type: 'user.created', version: '1' });
+
+    expect(await upcast({ id: 'u-1' }, message)).toEqual({ id: 'u-1', migrated: true });
+    expect(step).toHaveBeenCalledWith({ id: 'u-1' }, message);
+  });
+
+  it('should raise UnsupportedVersionError for unknown versions', async () => {
+    const upcast = createUpcaster(upcasters);
+
+    const error = await upcast({}, createMessage({ type: 'order.created', version: '4' })).catch((e: unknown) => e);
+
+    expect(error).toBeInstanceOf(UnsupportedVersionError);
+    expect(error).toMatchObject({
+      code: ErrorCodes.UNSUPPORTED_VERSION,
+      eventType: 'order.created',
+      version: '4',
+      latestVersion: '3',
+      message: "Unsupported version '4' of event 'order.created' (latest known: '3')",
+    });
+  });
+
+  it('should use the event version as the latest and its name as the default type', async () => {
+    const event: EventDefinition = { name: 'order.created', version: '2', topic: 'orders' };
+    const upcast = createUpcaster({ 'order.created': [{ from: '1', to: '2', upcast: () => ({ v: 2 }) }] }, event);
+
+    expect(await upcast({}, createMessage({ version: '1' }))).toEqual({ v: 2 });
+    await expect(upcast({}, createMessage({ version: '3' }))).rejects.toThrow(UnsupportedVersionError);
+  });
+
+  it('should reject other versions of a declared event without upcasters', async () => {
+    const upcast = createUpcaster({}, { name: 'order.created', version: '1', topic: 'orders' });
+
+    await expect(upcast({}, createMessage({ type: 'order.created', version: '2' }))).rejects.toMatchObject({
+      latestVersion: '1',
+    });
+  });
+
+  it.each([
+    ['a step to itself', [{ from: '1', to: '1' }], 'upcasts to itself'],
+    ['duplicate steps', [{ from: '1', to: '2' }, { from: '1', to: '3' }], "more than one step from version '1'"],
+    ['several latest versions', [{ from: '1', to: '3' }, { from: '2', to: '4' }], 'ends at several versions'],
+    ['a cycle', [{ from: '1', to: '2' }, { from: '2', to: '1' }], 'no latest version'],
+    ['a cycle beside the chain', [{ from: '1', to: '2' }, { from: '2', to: '1' }, { from: '3', to: '4' }], 'cycle'],
+  ])('should reject chains with %s', (_name, steps, reason) => {
+    const chain = steps.map((step) => ({ ...step, upcast: (data: unknown) => data }));
+
+    expect(() => createUpcaster({ 'order.created': chain })).toThrow(reason);
+    expect(() => createUpcaster({ 'order.created': chain })).toThrow(
+      expect.objectContaining({ code: ErrorCodes.INVALID_CONFIG })
+    );
+  });
+
+  it('should reject chains that do not reach the event version', () => {
+    const event: EventDefinition = { name: 'order.created', version: '3', topic: 'orders' };
+
+    expect(() => createUpcaster({ 'order.created': [{ from: '1', to: '2', upcast: (d) => d }] }, event)).toThrow(
+      "version '1' stops at '2' instead of '3'"
+    );
+  });
+});
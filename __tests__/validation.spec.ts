@@ -0,0 +1,135 @@
+/**
+ * @valianx/pubsub-lite - Payload Validation Tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import { validatePayload } from '../src/validation.js';
+import type { JsonSchema } from '../src/types.js';
+
+const orderSchema: JsonSchema = {
+  type: 'object',
+  required: ['id', 'items'],
+  additionalProperties: false,
+  properties: {
+    id: { type: 'string', pattern: '^ord-' },
+    status: { enum: ['new', 'paid'] },
+    items: {
+      type: 'array',
+      minItems: 1,
+      items: {
+        type: 'object',
+        required: ['sku'],
+        properties: { sku: { type: 'string' }, quantity: { type: 'integer', minimum: 1 } },
+      },
+    },
+  },
+};
+
+describe('validatePayload', () => {
+  describe('JSON Schema', () => {
+    it('should accept valid payloads', async () => {
+      const data = { id: 'ord-1', status: 'paid', items: [{ sku: 'A', quantity: 2 }] };
+
+      expect(await validatePayload(orderSchema, data)).toEqual({ valid: true, value: data });
+    });
+
+    it('should report every failure with its path', async () => {
+      const result = await validatePayload(orderSchema, {
+        id: 'x-1',
+        status: 'lost',
+        items: [{ quantity: 0 }],
+        extra: true,
+      });
+
+      expect(result).toEqual({
+        valid: false,
+        issues: [
+          { path: 'id', message: 'must match pattern ^ord-' },
+          { path: 'status', message: 'must be one of ["new","paid"]' },
+          { path: 'items.0.sku', message: 'is required' },
+          { path: 'items.0.quantity', message: 'must be >= 1' },
+          { path: 'extra', message: 'is not allowed' },
+        ],
+      });
+    });
+
+    it('should report type mismatches at the root', async () => {
+      expect(await validatePayload(orderSchema, 'order')).toEqual({
+        valid: false,
+        issues: [{ path: '', message: 'must be object' }],
+      });
+    });
+
+    it('should support anyOf and oneOf', async () => {
+      const schema: JsonSchema = { oneOf: [{ type: 'integer' }, { type: 'number', minimum: 0 }] };
+
+      expect((await validatePayload(schema, -1.5)).valid).toBe(false);
+      expect((await validatePayload(schema, 1.5)).valid).toBe(true);
+      expect((await validatePayload(schema, 2)).valid).toBe(false);
+    });
+  });
+
+  describe('Validator Contracts', () => {
+    it('should use safeParse results and their output (zod)', async () => {
+      const schema = {
+        safeParse: (data: any) =>
+          typeof data.id === 'string'
+            ? { success: true, data: { ...data, status: 'new' } }
+            : { success: false, error: { issues: [{ path: ['id'], message: 'Expected string' }] } },
+      };
+
+      expect(await validatePayload(schema, { id: 'a' })).toEqual({ valid: true, value: { id: 'a', status: 'new' } });
+      expect(await validatePayload(schema, { id: 1 })).toEqual({
+        valid: false,
+        issues: [{ path: 'id', message: 'Expected string' }],
+      });
+    });
+
+    it('should treat errors thrown by parse as failures', async () => {
+      const schema = {
+        parse: () => {
+          throw new Error('bad payload');
+        },
+      };
+
+      expect(await validatePayload(schema, {})).toEqual({ valid: false, issues: [{ path: '', message: 'bad payload' }] });
+    });
+
+    it('should read Joi-style validate results', async () => {
+      const schema = {
+        validate: (data: any) =>
+          data.id ? { value: data } : { error: { details: [{ path: ['id'], message: '"id" is required' }] } },
+      };
+
+      expect((await validatePayload(schema, { id: 1 })).valid).toBe(true);
+      expect(await validatePayload(schema, {})).toEqual({
+        valid: false,
+        issues: [{ path: 'id', message: '"id" is required' }],
+      });
+    });
+
+    it('should read errors from compiled Ajv-style functions', async () => {
+      const validate = Object.assign(() => false, {
+        errors: [{ instancePath: '/items/0/sku', message: 'must be string' }],
+      });
+
+      expect(await validatePayload(validate, {})).toEqual({
+        valid: false,
+        issues: [{ path: 'items.0.sku', message: 'must be string' }],
+      });
+    });
+
+    it('should accept functions returning issue lists', async () => {
+      const validate = (data: unknown) => (data ? [] : [{ path: '', message: 'is empty' }]);
+
+      expect((await validatePayload(validate, { a: 1 })).valid).toBe(true);
+      expect(await validatePayload(validate, null)).toEqual({ valid: false, issues: [{ path: '', message: 'is empty' }] });
+    });
+
+    it('should support async validators', async () => {
+      const validate = async () => true;
+
+      expect(await validatePayload(validate, 1)).toEqual({ valid: true, value: 1 });
+    });
+  });
+});
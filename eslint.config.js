@@ -17,7 +17,8 @@ export default [
         Buffer: 'readonly',
         setTimeout: 'readonly',
         setInterval: 'readonly',
-        clearInterval: 'readonly'
+        clearInterval: 'readonly',
+        clearTimeout: 'readonly'
       }
     },
     plugins: {
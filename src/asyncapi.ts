@@ -0,0 +1,287 @@
+/**
+ * @valianx/pubsub-lite - AsyncAPI document generation
+ */
+
+import type { AsyncApiOptions, Codec, EventDefinition, PayloadValidator } from './types.js';
+import { MessageAttributes } from './types.js';
+import { eventRegistry } from './events.js';
+import type { EventRegistry } from './events.js';
+import { isJsonSchema } from './validation.js';
+
+/**
+ * A message as described in the document, shared by every operation that uses it
+ */
+interface MessageSpec {
+  id: string;
+  channel: string;
+  name: string;
+  summary?: string;
+  contentType: string;
+  payload?: { schemaFormat?: string; schema: unknown };
+  headers: Record<string, string>;
+}
+
+/**
+ * A send or receive operation on a channel
+ */
+interface OperationSpec {
+  id: string;
+  action: 'send' | 'receive';
+  channel: string;
+  messageIds: string[];
+  subscription?: string;
+}
+
+/**
+ * Generate an AsyncAPI document describing every publisher and consumer created in
+ * this process
+ * 
+ * Topics become channels; publishers become `send` operations and consumers `receive`
+ * operations. Messages carry the codec content type, the default and event attributes
+ * as headers, and the payload schema when one is known: the codec schema (Avro,
+ * Protobuf) or a JSON Schema validator. Consumers without an event are described by
+ * their subscription, since the topic behind it is not known locally.
+ * 
+ * @example
+ * ```typescript
+ * import './messaging.js'; // creates the publishers and consumers
+ * 
+ * const document = generateAsyncApi({ info: { title: 'orders-service', version: '1.4.0' } });
+ * await writeFile('asyncapi.yaml', formatAsyncApi(document, 'yaml'));
+ * ```
+ */
+export function generateAsyncApi(
+  options: AsyncApiOptions,
+  registry: EventRegistry = eventRegistry
+): Record<string, unknown> {
+  const { info, asyncapi = '3.0.0', servers } = options;
+  const messages = new Map<string, MessageSpec>();
+  const operations = new Map<string, OperationSpec>();
+
+  const addMessage = (message: MessageSpec, operation: Omit<OperationSpec, 'messageIds'>): void => {
+    if (!messages.has(message.id)) {
+      messages.set(message.id, message);
+    }
+    const existing = operations.get(operation.id);
+    if (existing) {
+      if (!existing.messageIds.includes(message.id)) existing.messageIds.push(message.id);
+    } else {
+      operations.set(operation.id, { ...operation, messageIds: [message.id] });
+    }
+  };
+
+  for (const publisher of registry.listPublishers()) {
+    const { topic, event, codec, attributes, validator } = publisher;
+    addMessage(
+      describeMessage(event ? messageId(event) : `${topic}.message`, topic, event, codec, validator, attributes),
+      { id: `${topic}.send`, action: 'send', channel: topic }
+    );
+  }
+
+  for (const consumer of registry.listConsumers()) {
+    const { subscription, event, codecs, validator } = consumer;
+    const channel = event?.topic ?? subscription;
+    const eventAttributes: Record<string, string> = event
+      ? { [MessageAttributes.TYPE]: event.name, [MessageAttributes.VERSION]: event.version }
+      : {};
+    addMessage(
+      describeMessage(
+        event ? messageId(event) : `${subscription}.message`,
+        channel,
+        event,
+        codecs[0],
+        validator,
+        eventAttributes
+      ),
+      { id: `${subscription}.receive`, action: 'receive', channel, subscription }
+    );
+  }
+
+  const document: Record<string, unknown> = { asyncapi, info };
+  if (servers) {
+    document.servers = servers;
+  }
+
+  const messageComponents = Object.fromEntries(
+    [...messages.values()].map((message) => [message.id, renderMessage(message, asyncapi)])
+  );
+  const channelIds = [...new Set([...operations.values()].map((operation) => operation.channel))];
+
+  if (asyncapi === '2.6.0') {
+    document.channels = Object.fromEntries(channelIds.map((channel) => [channel, render2xChannel(channel, operations)]));
+  } else {
+    document.channels = Object.fromEntries(
+      channelIds.map((channel) => {
+        const channelMessages = [...messages.values()].filter((message) => message.channel === channel);
+        return [
+          channel,
+          {
+            address: channel,
+            messages: Object.fromEntries(
+              channelMessages.map((message) => [message.id, { $ref: `#/components/messages/${message.id}` }])
+            ),
+          },
+        ];
+      })
+    );
+    document.operations = Object.fromEntries(
+      [...operations.values()].map((operation) => [
+        operation.id,
+        {
+          action: operation.action,
+          channel: { $ref: `#/channels/${escapeRef(operation.channel)}` },
+          messages: operation.messageIds.map((id) => ({
+            $ref: `#/channels/${escapeRef(operation.channel)}/messages/${id}`,
+          })),
+          ...(operation.subscription && { 'x-google-pubsub-subscription': operation.subscription }),
+        },
+      ])
+    );
+  }
+
+  document.components = { messages: messageComponents };
+  return document;
+}
+
+/**
+ * Serialize a generated document as JSON or YAML
+ */
+export function formatAsyncApi(document: Record<string, unknown>, format: 'json' | 'yaml' = 'yaml'): string {
+  if (format === 'json') {
+    return `${JSON.stringify(document, null, 2)}\n`;
+  }
+  return `${yamlBlock(document, 0).join('\n')}\n`;
+}
+
+function describeMessage(
+  id: string,
+  channel: string,
+  event: EventDefinition | undefined,
+  codec: Codec | undefined,
+  validator: PayloadValidator | undefined,
+  attributes: Record<string, string>
+): MessageSpec {
+  const schema = validator ?? (event?.schema as PayloadValidator | undefined);
+  let payload: MessageSpec['payload'];
+  if (codec?.schema) {
+    payload = { schemaFormat: codec.schema.format, schema: codec.schema.definition };
+  } else if (schema && isJsonSchema(schema)) {
+    payload = { schema };
+  }
+
+  const contentType = codec?.contentType ?? 'application/json';
+  return {
+    id,
+    channel,
+    name: event?.name ?? id,
+    ...(event?.description && { summary: event.description }),
+    contentType,
+    ...(payload && { payload }),
+    headers: { ...attributes, [MessageAttributes.CONTENT_TYPE]: contentType },
+  };
+}
+
+function renderMessage(message: MessageSpec, version: AsyncApiOptions['asyncapi']): Record<string, unknown> {
+  // Attributes are fixed per publisher, so each header is documented with its value
+  const headers = {
+    type: 'object',
+    properties: Object.fromEntries(
+      Object.entries(message.headers).map(([name, value]) => [name, { type: 'string', const: value }])
+    ),
+  };
+
+  const rendered: Record<string, unknown> = {
+    name: message.name,
+    ...(message.summary && { summary: message.summary }),
+    contentType: message.contentType,
+    headers,
+  };
+  if (message.payload) {
+    const { schemaFormat, schema } = message.payload;
+    if (version === '2.6.0') {
+      if (schemaFormat) rendered.schemaFormat = schemaFormat;
+      rendered.payload = schema;
+    } else {
+      // AsyncAPI 3 moves the format into a multi-format schema object
+      rendered.payload = schemaFormat ? { schemaFormat, schema } : schema;
+    }
+  }
+  return rendered;
+}
+
+/**
+ * AsyncAPI 2.x names operations from the client's point of view: `subscribe`
+ * describes what this service sends, `publish` what it receives
+ */
+function render2xChannel(channel: string, operations: Map<string, OperationSpec>): Record<string, unknown> {
+  const rendered: Record<string, unknown> = {};
+  for (const action of ['send', 'receive'] as const) {
+    const matching = [...operations.values()].filter(
+      (operation) => operation.channel === channel && operation.action === action
+    );
+    if (matching.length === 0) continue;
+
+    const messageIds = [...new Set(matching.flatMap((operation) => operation.messageIds))];
+    const refs = messageIds.map((id) => ({ $ref: `#/components/messages/${id}` }));
+    const subscriptions = matching.flatMap((operation) => (operation.subscription ? [operation.subscription] : []));
+    rendered[action === 'send' ? 'subscribe' : 'publish'] = {
+      operationId: `${channel}.${action}`,
+      message: refs.length === 1 ? refs[0] : { oneOf: refs },
+      ...(subscriptions.length > 0 && { 'x-google-pubsub-subscriptions': subscriptions }),
+    };
+  }
+  return rendered;
+}
+
+function messageId(event: EventDefinition): string {
+  return `${event.name}.v${event.version}`.replace(/[^\w.-]/g, '_');
+}
+
+/**
+ * Escape a channel id for use in a JSON pointer
+ */
+function escapeRef(id: string): string {
+  return id.replace(/~/g, '~0').replace(/\//g, '~1');
+}
+
+/**
+ * Render a JSON-compatible value as block-style YAML lines
+ */
+function yamlBlock(value: unknown, indent: number): string[] {
+  const pad = ' '.repeat(indent);
+  if (Array.isArray(value)) {
+    return value.flatMap((item) => {
+      if (!isNonEmptyContainer(item)) return [`${pad}- ${yamlScalar(item)}`];
+      const [first = '', ...rest] = yamlBlock(item, indent + 2);
+      return [`${pad}- ${first.trimStart()}`, ...rest];
+    });
+  }
+
+  return Object.entries(value as Record<string, unknown>).flatMap(([key, item]) => {
+    if (item === undefined) return [];
+    if (!isNonEmptyContainer(item)) return [`${pad}${yamlString(key)}: ${yamlScalar(item)}`];
+    return [`${pad}${yamlString(key)}:`, ...yamlBlock(item, indent + 2)];
+  });
+}
+
+function isNonEmptyContainer(value: unknown): boolean {
+  if (Array.isArray(value)) return value.length > 0;
+  return typeof value === 'object' && value !== null && Object.keys(value).length > 0;
+}
+
+function yamlScalar(value: unknown): string {
+  if (Array.isArray(value)) return '[]';
+  if (typeof value === 'object' && value !== null) return '{}';
+  if (typeof value === 'string') return yamlString(value);
+  return value === undefined ? 'null' : JSON.stringify(value);
+}
+
+/**
+ * Emit a string plain when YAML cannot misread it, double-quoted (JSON escaping) otherwise
+ */
+function yamlString(value: string): string {
+  const plain = /^[A-Za-z_][\w./ -]*$/.test(value)
+    && !value.endsWith(' ')
+    && !/^(true|false|null|yes|no|on|off|y|n)$/i.test(value);
+  return plain ? value : JSON.stringify(value);
+}
@@ -0,0 +1,67 @@
+/**
+ * @valianx/pubsub-lite - Filesystem Blob Store (tests and on-prem)
+ */
+
+import { randomUUID } from 'node:crypto';
+import { mkdir, readFile, rename, rm, writeFile } from 'node:fs/promises';
+import { join } from 'node:path';
+import { ErrorCodes } from '../types.js';
+import type { BlobStore, FileBlobStoreOptions } from '../types.js';
+import { PubSubLiteError } from '../errors.js';
+
+/**
+ * References are the UUIDs this store generates; anything else could escape the directory
+ */
+const REFERENCE_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/;
+
+/**
+ * Blob store keeping one file per payload in a local directory
+ *
+ * Payloads are written to a temporary file and renamed into place, so a reader never
+ * sees a partial payload. Share the directory (e.g. an NFS mount) between publishers
+ * and consumers on different hosts.
+ *
+ * @example
+ * ```typescript
+ * const blobs = new FileBlobStore({ directory: '/var/lib/my-service/claim-checks' });
+ * const publisher = createPublisher(client, 'exports', { claimCheck: { store: blobs } });
+ * ```
+ */
+export class FileBlobStore implements BlobStore {
+  private readonly directory: string;
+  private ready: Promise<unknown> | undefined;
+
+  constructor(options: FileBlobStoreOptions) {
+    this.directory = options.directory;
+  }
+
+  async put(data: Buffer): Promise<string> {
+    // Retried on the next put if creating the directory fails
+    this.ready ??= mkdir(this.directory, { recursive: true }).catch((error: unknown) => {
+      this.ready = undefined;
+      throw error;
+    });
+    await this.ready;
+
+    const reference = randomUUID();
+    const path = this.pathFor(reference);
+    await writeFile(`${path}.tmp`, data);
+    await rename(`${path}.tmp`, path);
+    return reference;
+  }
+
+  async get(reference: string): Promise<Buffer> {
+    return readFile(this.pathFor(reference));
+  }
+
+  async delete(reference: string): Promise<void> {
+    await rm(this.pathFor(reference), { force: true });
+  }
+
+  private pathFor(reference: string): string {
+    if (!REFERENCE_PATTERN.test(reference)) {
+      throw new PubSubLiteError(`Invalid blob reference '${reference}'`, ErrorCodes.BLOB_STORE_ERROR);
+    }
+    return join(this.directory, `${reference}.blob`);
+  }
+}
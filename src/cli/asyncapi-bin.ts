@@ -0,0 +1,11 @@
+#!/usr/bin/env node
+/**
+ * @valianx/pubsub-lite - AsyncAPI generator executable
+ */
+
+import process from 'node:process';
+import { runAsyncApiCli } from './asyncapi.js';
+
+void runAsyncApiCli(process.argv.slice(2)).then((exitCode) => {
+  process.exitCode = exitCode;
+});
@@ -0,0 +1,126 @@
+/**
+ * @valianx/pubsub-lite - AsyncAPI generator script
+ */
+
+import { readFile, writeFile } from 'node:fs/promises';
+import { extname, resolve } from 'node:path';
+import { pathToFileURL } from 'node:url';
+import process from 'node:process';
+import { parseArgs } from 'node:util';
+import type { AsyncApiVersion } from '../types.js';
+import { formatAsyncApi, generateAsyncApi } from '../asyncapi.js';
+
+/**
+ * Simple logger utility to avoid ESLint console warnings
+ */
+const logger = {
+  info: (message: string) => {
+    // eslint-disable-next-line no-console
+    console.log(message);
+  },
+  error: (message: string) => {
+    // eslint-disable-next-line no-console
+    console.error(message);
+  }
+};
+
+const USAGE = `Usage: pubsub-lite-asyncapi <module...> [options]
+
+Imports the given (compiled JavaScript) modules, which create the service's publishers
+and consumers, and writes an AsyncAPI document describing them.
+
+Options:
+  -o, --out <file>         Output file (default: stdout)
+  -f, --format <format>    json | yaml (default: from the output extension, else yaml)
+      --asyncapi <version> 2.6.0 | 3.0.0 (default: 3.0.0)
+      --title <title>      Service title (default: package.json name)
+      --version <version>  Service version (default: package.json version)
+      --description <text> Service description
+  -h, --help               Show this help`;
+
+/**
+ * Run the generator with command-line arguments; returns the process exit code
+ * 
+ * @example
+ * ```bash
+ * pubsub-lite-asyncapi ./dist/messaging.js --out asyncapi.yaml
+ * ```
+ */
+export async function runAsyncApiCli(args: string[], cwd: string = process.cwd()): Promise<number> {
+  let parsed: ReturnType<typeof parseCliArgs>;
+  try {
+    parsed = parseCliArgs(args);
+  } catch (error) {
+    logger.error(`${error instanceof Error ? error.message : String(error)}\n\n${USAGE}`);
+    return 1;
+  }
+
+  const { values, positionals } = parsed;
+  if (values.help || positionals.length === 0) {
+    logger.info(USAGE);
+    return values.help ? 0 : 1;
+  }
+
+  const asyncapi = values.asyncapi ?? '3.0.0';
+  if (asyncapi !== '2.6.0' && asyncapi !== '3.0.0') {
+    logger.error(`Unsupported AsyncAPI version '${asyncapi}' (expected 2.6.0 or 3.0.0)`);
+    return 1;
+  }
+  const format = values.format ?? (values.out && extname(values.out) === '.json' ? 'json' : 'yaml');
+  if (format !== 'json' && format !== 'yaml') {
+    logger.error(`Unsupported format '${format}' (expected json or yaml)`);
+    return 1;
+  }
+
+  try {
+    // Importing the modules registers their publishers and consumers
+    for (const modulePath of positionals) {
+      await import(pathToFileURL(resolve(cwd, modulePath)).href);
+    }
+
+    const pkg = await readPackageJson(cwd);
+    const document = generateAsyncApi({
+      asyncapi: asyncapi as AsyncApiVersion,
+      info: {
+        title: values.title ?? pkg.name ?? 'service',
+        version: values.version ?? pkg.version ?? '0.0.0',
+        ...(values.description && { description: values.description }),
+      },
+    });
+    const output = formatAsyncApi(document, format);
+
+    if (values.out) {
+      await writeFile(resolve(cwd, values.out), output);
+    } else {
+      process.stdout.write(output);
+    }
+    return 0;
+  } catch (error) {
+    logger.error(`Failed to generate AsyncAPI document: ${error instanceof Error ? error.message : String(error)}`);
+    return 1;
+  }
+}
+
+function parseCliArgs(args: string[]) {
+  return parseArgs({
+    args,
+    allowPositionals: true,
+    options: {
+      out: { type: 'string', short: 'o' },
+      format: { type: 'string', short: 'f' },
+      asyncapi: { type: 'string' },
+      title: { type: 'string' },
+      version: { type: 'string' },
+      description: { type: 'string' },
+      help: { type: 'boolean', short: 'h' },
+    },
+  });
+}
+
+async function readPackageJson(cwd: string): Promise<{ name?: string; version?: string }> {
+  try {
+    return JSON.parse(await readFile(resolve(cwd, 'package.json'), 'utf8'));
+  } catch {
+    return {};
+  }
+}
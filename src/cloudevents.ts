@@ -0,0 +1,165 @@
+/**
+ * @valianx/pubsub-lite - CloudEvents Pub/Sub binding
+ */
+
+import type { Message } from '@google-cloud/pubsub';
+import { ErrorCodes, MessageAttributes } from './types.js';
+import type { CloudEvent, CloudEventsMode, Codec } from './types.js';
+import { PubSubLiteError } from './errors.js';
+import { builtInCodecs, normalizeContentType } from './codecs.js';
+
+/**
+ * CloudEvents specification version written by the publisher
+ */
+export const CLOUDEVENTS_SPEC_VERSION = '1.0';
+
+/**
+ * Content type of structured-mode messages
+ */
+export const CLOUDEVENTS_JSON_CONTENT_TYPE = 'application/cloudevents+json';
+
+/**
+ * Prefix of context attributes in binary mode
+ */
+const ATTRIBUTE_PREFIX = 'ce-';
+
+/**
+ * Content type attribute defined by the CloudEvents Pub/Sub binding
+ */
+const BINDING_CONTENT_TYPE = 'content-type';
+
+const REQUIRED_ATTRIBUTES = ['specversion', 'id', 'source', 'type'] as const;
+
+/**
+ * Context attributes of an event, without its data
+ */
+export type CloudEventContext = Pick<CloudEvent, 'specversion' | 'id' | 'source' | 'type'> &
+  Partial<Pick<CloudEvent, 'time' | 'subject' | 'dataschema'>>;
+
+/**
+ * Decodes event data bytes given their content type
+ */
+export type CloudEventDataDecoder = (data: Buffer, contentType: string | undefined) => unknown;
+
+/**
+ * Build the message data and attributes for an event
+ *
+ * Binary mode keeps the codec's bytes as message data and writes the context as `ce-*`
+ * attributes; structured mode writes a JSON envelope, embedding JSON and text payloads
+ * as `data` and anything else base64-encoded as `data_base64`.
+ *
+ * The returned attributes include the content type, so they go last when merging.
+ */
+export function encodeCloudEvent(
+  context: CloudEventContext,
+  payload: unknown,
+  codec: Codec,
+  mode: CloudEventsMode = 'binary'
+): { data: Buffer; attributes: Record<string, string> } {
+  const encoded = codec.encode(payload);
+
+  if (mode === 'binary') {
+    const attributes: Record<string, string> = {};
+    for (const [name, value] of Object.entries(context)) {
+      if (value !== undefined) attributes[ATTRIBUTE_PREFIX + name] = value;
+    }
+    attributes[BINDING_CONTENT_TYPE] = codec.contentType;
+    return { data: encoded, attributes };
+  }
+
+  const contentType = normalizeContentType(codec.contentType);
+  const envelope: Record<string, unknown> = { ...context, datacontenttype: codec.contentType };
+  if (isJsonContentType(contentType)) {
+    envelope.data = JSON.parse(encoded.toString('utf8'));
+  } else if (contentType.startsWith('text/')) {
+    envelope.data = encoded.toString('utf8');
+  } else {
+    envelope.data_base64 = encoded.toString('base64');
+  }
+
+  return {
+    data: Buffer.from(JSON.stringify(envelope), 'utf8'),
+    attributes: {
+      [BINDING_CONTENT_TYPE]: CLOUDEVENTS_JSON_CONTENT_TYPE,
+      [MessageAttributes.CONTENT_TYPE]: CLOUDEVENTS_JSON_CONTENT_TYPE,
+    },
+  };
+}
+
+/**
+ * Parse a message in either binding mode into a CloudEvent
+ *
+ * Structured mode is recognized by its content type, binary mode by the
+ * `ce-specversion` attribute. Binary data and `data_base64` are decoded with `decode`
+ * (JSON, text and binary by default); embedded JSON `data` is used as-is.
+ *
+ * @throws {PubSubLiteError} `PARSE_ERROR` when the message is not a valid CloudEvent
+ */
+export function parseCloudEvent(
+  message: Pick<Message, 'data' | 'attributes'>,
+  decode: CloudEventDataDecoder = decodeBuiltIn
+): CloudEvent {
+  const attributes = message.attributes ?? {};
+  const contentType = attributes[BINDING_CONTENT_TYPE] ?? attributes[MessageAttributes.CONTENT_TYPE];
+
+  let event: Record<string, unknown>;
+  if (contentType !== undefined && normalizeContentType(contentType) === CLOUDEVENTS_JSON_CONTENT_TYPE) {
+    event = parseEnvelope(message.data, decode);
+  } else if (attributes[`${ATTRIBUTE_PREFIX}specversion`] !== undefined) {
+    event = {};
+    for (const [name, value] of Object.entries(attributes)) {
+      if (name.startsWith(ATTRIBUTE_PREFIX)) event[name.slice(ATTRIBUTE_PREFIX.length)] = value;
+    }
+    if (contentType !== undefined) event.datacontenttype = contentType;
+    event.data = decode(message.data, contentType);
+  } else {
+    throw new PubSubLiteError('Message is not a CloudEvent', ErrorCodes.PARSE_ERROR);
+  }
+
+  const missing = REQUIRED_ATTRIBUTES.filter((name) => typeof event[name] !== 'string' || event[name] === '');
+  if (missing.length > 0) {
+    throw new PubSubLiteError(`CloudEvent is missing ${missing.join(', ')}`, ErrorCodes.PARSE_ERROR);
+  }
+  return event as CloudEvent;
+}
+
+/**
+ * Read a structured-mode envelope, decoding `data_base64` to the event data
+ */
+function parseEnvelope(data: Buffer, decode: CloudEventDataDecoder): Record<string, unknown> {
+  let envelope: unknown;
+  try {
+    envelope = JSON.parse(data.toString('utf8'));
+  } catch (cause) {
+    throw new PubSubLiteError('Structured CloudEvent is not valid JSON', ErrorCodes.PARSE_ERROR, { cause });
+  }
+  if (typeof envelope !== 'object' || envelope === null || Array.isArray(envelope)) {
+    throw new PubSubLiteError('Structured CloudEvent must be a JSON object', ErrorCodes.PARSE_ERROR);
+  }
+
+  const { data_base64: base64, ...event } = envelope as Record<string, unknown>;
+  if (typeof base64 === 'string') {
+    const contentType = typeof event.datacontenttype === 'string' ? event.datacontenttype : undefined;
+    event.data = decode(Buffer.from(base64, 'base64'), contentType);
+  }
+  return event;
+}
+
+function decodeBuiltIn(data: Buffer, contentType: string | undefined): unknown {
+  const normalized = contentType === undefined ? 'application/json' : normalizeContentType(contentType);
+  const codec = builtInCodecs.find((candidate) => candidate.contentType === normalized);
+  if (!codec) {
+    throw new PubSubLiteError(`No codec registered for content type '${contentType}'`, ErrorCodes.PARSE_ERROR);
+  }
+  try {
+    return codec.decode(data);
+  } catch (cause) {
+    throw new PubSubLiteError(`Failed to decode CloudEvent data as '${codec.contentType}'`, ErrorCodes.PARSE_ERROR, {
+      cause,
+    });
+  }
+}
+
+function isJsonContentType(contentType: string): boolean {
+  return contentType === 'application/json' || contentType.endsWith('+json');
+}
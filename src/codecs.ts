@@ -0,0 +1,65 @@
+/**
+ * @valianx/pubsub-lite - Message codecs
+ */
+
+import type { Codec } from './types.js';
+
+/**
+ * JSON codec (UTF-8) - the default for publishers and consumers
+ */
+export const jsonCodec: Codec = {
+  contentType: 'application/json',
+  encode(data: unknown): Buffer {
+    const json = JSON.stringify(data);
+    if (json === undefined) {
+      throw new TypeError(`Cannot JSON-encode a value of type ${typeof data}`);
+    }
+    return Buffer.from(json, 'utf8');
+  },
+  decode(data: Buffer): unknown {
+    return JSON.parse(data.toString('utf8'));
+  },
+};
+
+/**
+ * Plain text codec (UTF-8)
+ */
+export const textCodec: Codec<string> = {
+  contentType: 'text/plain',
+  encode(data: string): Buffer {
+    return Buffer.from(String(data), 'utf8');
+  },
+  decode(data: Buffer): string {
+    return data.toString('utf8');
+  },
+};
+
+/**
+ * Pass-through codec for payloads that are already bytes
+ */
+export const binaryCodec: Codec<Buffer | Uint8Array> = {
+  contentType: 'application/octet-stream',
+  encode(data: Buffer | Uint8Array): Buffer {
+    if (!(data instanceof Uint8Array)) {
+      throw new TypeError('binaryCodec can only encode a Buffer or Uint8Array');
+    }
+    return Buffer.from(data);
+  },
+  decode(data: Buffer): Buffer {
+    return data;
+  },
+};
+
+/**
+ * Codecs every consumer can decode without configuration
+ */
+export const builtInCodecs: readonly Codec[] = [jsonCodec, textCodec, binaryCodec] as Codec[];
+
+/**
+ * Normalize a content type for lookup: media type only, lower case, parameters dropped
+ * 
+ * @example normalizeContentType('Application/JSON; charset=utf-8') // 'application/json'
+ */
+export function normalizeContentType(contentType: string): string {
+  return (contentType.split(';')[0] ?? '').trim().toLowerCase();
+}
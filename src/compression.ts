@@ -0,0 +1,109 @@
+/**
+ * @valianx/pubsub-lite - Payload compression
+ */
+
+import { promisify } from 'node:util';
+import { brotliCompress, brotliDecompress, constants, deflate, gzip, gunzip, inflate } from 'node:zlib';
+import { Defaults, ErrorCodes } from './types.js';
+import type { CompressionAlgorithm, CompressionOptions, CompressionStats } from './types.js';
+import { PubSubLiteError } from './errors.js';
+
+const gzipAsync = promisify(gzip);
+const gunzipAsync = promisify(gunzip);
+const deflateAsync = promisify(deflate);
+const inflateAsync = promisify(inflate);
+const brotliCompressAsync = promisify(brotliCompress);
+const brotliDecompressAsync = promisify(brotliDecompress);
+
+/**
+ * `contentEncoding` attribute value for each algorithm (HTTP content-coding tokens)
+ */
+const CONTENT_ENCODINGS: Record<CompressionAlgorithm, string> = {
+  gzip: 'gzip',
+  brotli: 'br',
+  deflate: 'deflate',
+};
+
+/**
+ * Compress a payload when it reaches the threshold
+ *
+ * Returns undefined when the payload is below the threshold or compression would not
+ * make it smaller, so the original bytes are published as-is.
+ */
+export async function compressPayload(
+  data: Buffer,
+  options: CompressionOptions
+): Promise<{ data: Buffer; contentEncoding: string; stats: CompressionStats } | undefined> {
+  const { algorithm = 'gzip', threshold = Defaults.COMPRESSION_THRESHOLD_BYTES, level } = options;
+  if (data.length < threshold) return undefined;
+
+  let compressed: Buffer;
+  switch (algorithm) {
+    case 'gzip':
+      compressed = await gzipAsync(data, level === undefined ? {} : { level });
+      break;
+    case 'deflate':
+      compressed = await deflateAsync(data, level === undefined ? {} : { level });
+      break;
+    case 'brotli':
+      compressed = await brotliCompressAsync(data, {
+        params: {
+          [constants.BROTLI_PARAM_SIZE_HINT]: data.length,
+          ...(level !== undefined && { [constants.BROTLI_PARAM_QUALITY]: level }),
+        },
+      });
+      break;
+    default:
+      throw new PubSubLiteError(`Unsupported compression algorithm '${String(algorithm)}'`, ErrorCodes.INVALID_CONFIG);
+  }
+
+  if (compressed.length >= data.length) return undefined;
+  return {
+    data: compressed,
+    contentEncoding: CONTENT_ENCODINGS[algorithm],
+    stats: {
+      algorithm,
+      originalBytes: data.length,
+      compressedBytes: compressed.length,
+      ratio: data.length / compressed.length,
+    },
+  };
+}
+
+/**
+ * Decompress a payload according to its `contentEncoding` attribute
+ *
+ * Payloads without an encoding (or with 'identity') are returned unchanged. Output is
+ * capped at `maxOutputLength` bytes, so a small message cannot expand into gigabytes.
+ *
+ * @throws {PubSubLiteError} `PARSE_ERROR` for unknown encodings, corrupt data and oversized output
+ */
+export async function decompressPayload(
+  data: Buffer,
+  contentEncoding: string | undefined,
+  maxOutputLength: number = Defaults.MAX_DECOMPRESSED_BYTES
+): Promise<Buffer> {
+  const encoding = contentEncoding?.trim().toLowerCase();
+  if (!encoding || encoding === 'identity') return data;
+
+  try {
+    switch (encoding) {
+      case 'gzip':
+        return await gunzipAsync(data, { maxOutputLength });
+      case 'deflate':
+        return await inflateAsync(data, { maxOutputLength });
+      case 'br':
+        return await brotliDecompressAsync(data, { maxOutputLength });
+    }
+  } catch (cause) {
+    if ((cause as { code?: unknown }).code === 'ERR_BUFFER_TOO_LARGE') {
+      throw new PubSubLiteError(
+        `Decompressed '${encoding}' payload exceeds ${maxOutputLength} bytes`,
+        ErrorCodes.PARSE_ERROR,
+        { cause }
+      );
+    }
+    throw new PubSubLiteError(`Failed to decompress '${encoding}' payload`, ErrorCodes.PARSE_ERROR, { cause });
+  }
+  throw new PubSubLiteError(`Unsupported content encoding '${contentEncoding}'`, ErrorCodes.PARSE_ERROR);
+}
@@ -3,9 +3,32 @@
  */
 
 import type { PubSub, Subscription, Message } from '@google-cloud/pubsub';
-import type { ConsumerOptions, MessageHandler, IdempotencyStore } from './types.js';
+import { Defaults, ErrorCodes, MessageAttributes } from './types.js';
+import type {
+  ConsumerOptions,
+  MessageData,
+  MessageHandler,
+  IdempotencyStore,
+  ErrorHandler,
+  ErrorContext,
+  Codec,
+  BlobStore,
+  EventDefinition,
+  InvalidMessagePolicy,
+  PayloadValidator,
+} from './types.js';
+import { PayloadValidationError, PubSubLiteError, SignatureError, UnsupportedVersionError } from './errors.js';
+import { builtInCodecs, jsonCodec, normalizeContentType } from './codecs.js';
+import { validatePayload } from './validation.js';
+import { createUpcaster } from './upcasting.js';
+import { parseCloudEvent } from './cloudevents.js';
+import { decompressPayload } from './compression.js';
+import { decryptPayload } from './encryption.js';
+import { verifySignature } from './signing.js';
+import { eventRegistry } from './events.js';
 import { RedisIdempotencyStore } from './idempotency/redis-store.js';
 import { InMemoryIdempotencyStore } from './idempotency/memory-store.js';
+import { FileIdempotencyStore } from './idempotency/file-store.js';
 
 /**
  * Simple logger utility to avoid ESLint console warnings
@@ -13,14 +36,26 @@ import { InMemoryIdempotencyStore } from './idempotency/memory-store.js';
 const logger = {
   warn: (message: string, error?: unknown) => {
     // eslint-disable-next-line no-console
-    console.warn(message, error);
+    console.warn(message, ...(error === undefined ? [] : [error]));
   },
   error: (message: string, error?: unknown) => {
     // eslint-disable-next-line no-console
-    console.error(message, error);
+    console.error(message, ...(error === undefined ? [] : [error]));
   }
 };
 
+/**
+ * Key read while paused to detect that the idempotency store has recovered
+ */
+const RECOVERY_PROBE_KEY = '__pubsub-lite:recovery-probe__';
+
+/**
+ * Idempotency key recording that a claim-checked payload was deleted after its message was acked
+ */
+function claimCheckKey(reference: string): string {
+  return `__pubsub-lite:claim-check__:${reference}`;
+}
+
 /**
  * Consumer wrapper that provides idempotency and simplified message handling
  * 
@@ -37,11 +72,11 @@ const logger = {
  * });
  * ```
  */
-export interface Consumer {
+export interface Consumer<T = MessageData> {
   /** Register message handler */
-  on(event: 'message', handler: MessageHandler): void;
+  on(event: 'message', handler: MessageHandler<T>): void;
   /** Register error handler */
-  on(event: 'error', handler: (error: Error) => void): void;
+  on(event: 'error', handler: ErrorHandler): void;
   /** Start consuming messages */
   start(): void;
   /** Stop consuming and cleanup resources */
@@ -52,17 +87,46 @@ export interface Consumer {
 
 /**
  * Create a consumer for the specified subscription
+ * 
+ * The payload type `T` flows through the message handler and hooks. Pass a `guard`
+ * to check it at runtime; `T` is then inferred from the guard.
+ * 
+ * @example
+ * ```typescript
+ * const isOrder = (data: unknown): data is OrderCreated =>
+ *   typeof data === 'object' && data !== null && 'orderId' in data;
+ * 
+ * const consumer = createConsumer(client, 'orders-sub', { guard: isOrder });
+ * consumer.on('message', async (order) => console.log(order.orderId));
+ * ```
  */
-export function createConsumer(
+export function createConsumer<T = MessageData>(
   client: PubSub,
   subscriptionName: string,
-  options: ConsumerOptions = {}
-): Consumer {
+  options: ConsumerOptions<T> = {}
+): Consumer<T> {
   const {
     idempotencyEnabled = false,
     redis,
+    file,
     idempotencyStore: providedStore,
     idempotencyKeySelector = (message: Message) => message.id,
+    idempotencyLeaseTtl = Defaults.IDEMPOTENCY_LEASE_MS,
+    idempotencyFailurePolicy = 'process',
+    idempotencyRecoveryInterval = Defaults.IDEMPOTENCY_RECOVERY_INTERVAL_MS,
+    codec = jsonCodec,
+    codecs = [],
+    event,
+    upcasters,
+    cloudEvents = false,
+    claimCheck,
+    maxDecompressedBytes = Defaults.MAX_DECOMPRESSED_BYTES,
+    encryption,
+    signatureVerification,
+    validator = event?.schema as PayloadValidator | undefined,
+    invalidMessagePolicy = 'nack',
+    deadLetterTopic,
+    guard,
     hooks,
     ...otherOptions
   } = options;
@@ -71,12 +135,41 @@ export function createConsumer(
   // Filter out our custom options
   const subscriptionOptions = Object.fromEntries(
     Object.entries(otherOptions).filter(([key]) => 
-      !['idempotencyEnabled', 'redis', 'idempotencyStore', 'idempotencyKeySelector', 'hooks'].includes(key)
+      !['idempotencyEnabled', 'redis', 'file', 'idempotencyStore', 'idempotencyKeySelector', 'idempotencyLeaseTtl',
+        'idempotencyFailurePolicy', 'idempotencyRecoveryInterval', 'codec', 'codecs', 'validator', 'invalidMessagePolicy',
+        'deadLetterTopic', 'guard', 'event', 'upcasters', 'cloudEvents', 'claimCheck',
+        'maxDecompressedBytes', 'encryption', 'signatureVerification', 'hooks'].includes(key)
     )
   );
 
+  if (invalidMessagePolicy === 'deadLetter' && !deadLetterTopic) {
+    throw new PubSubLiteError(
+      "deadLetterTopic is required when invalidMessagePolicy is 'deadLetter'",
+      ErrorCodes.INVALID_CONFIG
+    );
+  }
+  const signaturePolicy = signatureVerification?.policy ?? 'nack';
+  if (signaturePolicy === 'deadLetter' && !deadLetterTopic) {
+    throw new PubSubLiteError(
+      "deadLetterTopic is required when signatureVerification.policy is 'deadLetter'",
+      ErrorCodes.INVALID_CONFIG
+    );
+  }
+
+  // Compiled up front so broken chains fail at creation; declared events also reject unknown versions
+  const upcast = upcasters || event ? createUpcaster(upcasters ?? {}, event as EventDefinition | undefined) : undefined;
+
   // Create subscription with SDK-compatible options only
   const subscription = client.subscription(subscriptionName, subscriptionOptions);
+  const deadLetter = deadLetterTopic && (invalidMessagePolicy === 'deadLetter' || signaturePolicy === 'deadLetter')
+    ? client.topic(deadLetterTopic)
+    : undefined;
+  eventRegistry.registerConsumer({
+    subscription: subscriptionName,
+    ...(event && { event: event as EventDefinition }),
+    codecs: [codec, ...codecs],
+    ...(validator && { validator }),
+  });
   
   // Initialize idempotency store if enabled
   let idempotencyStore: IdempotencyStore | undefined;
@@ -85,106 +178,466 @@ export function createConsumer(
       idempotencyStore = providedStore;
     } else if (redis) {
       idempotencyStore = new RedisIdempotencyStore(redis);
+    } else if (file) {
+      idempotencyStore = new FileIdempotencyStore(file);
     } else {
       // Fallback to in-memory store with warning
       logger.warn(
-        '@valianx/pubsub-lite: No Redis config provided for idempotency. Using InMemoryStore (not recommended for production).'
+        '@valianx/pubsub-lite: No Redis or file config provided for idempotency. Using InMemoryStore (not recommended for production).'
       );
       idempotencyStore = new InMemoryIdempotencyStore();
     }
   }
 
-  let messageHandler: MessageHandler | undefined;
-  let errorHandler: ((error: Error) => void) | undefined;
+  // Decoders by normalized content type; configured codecs override the built-ins
+  const decoders = new Map<string, Codec>();
+  for (const decoder of [...builtInCodecs, codec, ...codecs]) {
+    decoders.set(normalizeContentType(decoder.contentType), decoder);
+  }
+
+  let messageHandler: MessageHandler<T> | undefined;
+  let errorHandler: ErrorHandler | undefined;
   let isStarted = false;
+  let isPaused = false;
+  let recoveryTimer: ReturnType<typeof setTimeout> | undefined;
 
-  const consumer: Consumer = {
-    on(event: string, handler: unknown): void {
-      if (event === 'message') {
-        messageHandler = handler as MessageHandler;
-      } else if (event === 'error') {
-        errorHandler = handler as (error: Error) => void;
+  /**
+   * Report an error to the registered error handler, or log it if there is none
+   */
+  function reportError(error: Error, context: ErrorContext, fallbackLog: string): void {
+    if (errorHandler) {
+      errorHandler(error, context);
+    } else {
+      logger.error(fallbackLog, error);
+    }
+  }
+
+  /**
+   * Read the message payload, fetching it from the blob store when it was claim-checked
+   */
+  async function readPayload(message: Message): Promise<Buffer> {
+    const reference = message.attributes?.[MessageAttributes.CLAIM_CHECK];
+    if (reference === undefined) return message.data;
+    if (!claimCheck) {
+      throw new PubSubLiteError(
+        'Message payload is claim-checked but no claimCheck store is configured',
+        ErrorCodes.PARSE_ERROR
+      );
+    }
+
+    try {
+      return await claimCheck.store.get(reference);
+    } catch (cause) {
+      throw new PubSubLiteError(`Failed to fetch claim-checked payload '${reference}'`, ErrorCodes.BLOB_STORE_ERROR, {
+        cause,
+      });
+    }
+  }
+
+  /**
+   * Check the signature when verification is enabled, returning the failure to reject
+   */
+  function verifyMessage(data: Buffer, attributes: Record<string, string>): SignatureError | undefined {
+    if (!signatureVerification) return undefined;
+    try {
+      verifySignature(data, attributes, signatureVerification.keys);
+      return undefined;
+    } catch (error) {
+      if (!(error instanceof SignatureError)) throw error;
+      const allowUnsigned = signatureVerification.requireSignature === false && error.reason === 'unsigned';
+      return allowUnsigned ? undefined : error;
+    }
+  }
+
+  /**
+   * Decrypt an encrypted payload; plaintext payloads pass through
+   */
+  async function decryptMessage(data: Buffer, attributes: Record<string, string>): Promise<Buffer> {
+    if (attributes[MessageAttributes.ENCRYPTION] === undefined) return data;
+    if (!encryption) {
+      throw new PubSubLiteError(
+        'Message payload is encrypted but no encryption key provider is configured',
+        ErrorCodes.ENCRYPTION_ERROR
+      );
+    }
+    return decryptPayload(data, attributes, encryption.keyProvider);
+  }
+
+  /**
+   * Delete a claim-checked payload once the handler acks its message
+   */
+  function deletePayloadOnAck(message: Message, store: BlobStore, reference: string): void {
+    const ack = message.ack.bind(message);
+    message.ack = () => {
+      ack();
+      void deletePayload(message, store, reference);
+    };
+  }
+
+  /**
+   * Delete an acked message's payload, recording the deletion first when idempotency is enabled
+   * 
+   * A redelivery of the acked message can no longer fetch its payload, so the recorded
+   * reference is what lets it be acked as a duplicate. The payload is kept if it cannot be recorded.
+   */
+  async function deletePayload(message: Message, store: BlobStore, reference: string): Promise<void> {
+    if (idempotencyStore) {
+      try {
+        await idempotencyStore.markCompleted(claimCheckKey(reference));
+      } catch (idempotencyError) {
+        reportIdempotencyError(idempotencyError, message, 'record deleted claim-checked payload');
+        return;
       }
-    },
+    }
 
-    start(): void {
-      if (isStarted) return;
-      isStarted = true;
+    try {
+      await store.delete(reference);
+    } catch (cause) {
+      reportError(
+        new PubSubLiteError(`Failed to delete claim-checked payload '${reference}'`, ErrorCodes.BLOB_STORE_ERROR, {
+          cause,
+        }),
+        { messageId: message.id, phase: 'ack', message, metadata: { reference } },
+        '@valianx/pubsub-lite: Claim-check cleanup failed:'
+      );
+    }
+  }
+
+  /**
+   * Whether a claim-checked payload was deleted after an earlier delivery of its message was acked
+   */
+  async function wasPayloadDeletedOnAck(message: Message, reference: string | undefined): Promise<boolean> {
+    if (reference === undefined || !claimCheck?.deleteAfterAck || !idempotencyStore) return false;
+    try {
+      return (await idempotencyStore.getStatus(claimCheckKey(reference))) === 'completed';
+    } catch (idempotencyError) {
+      reportIdempotencyError(idempotencyError, message, 'check deleted claim-checked payload');
+      return false;
+    }
+  }
+
+  /**
+   * Decode bytes with the codec registered for a content type
+   */
+  function decodeData(data: Buffer, contentType: string | undefined): unknown {
+    // Messages from publishers that predate codecs carry no content type
+    const decoder = contentType === undefined ? codec : decoders.get(normalizeContentType(contentType));
+    if (!decoder) {
+      throw new PubSubLiteError(`No codec registered for content type '${contentType}'`, ErrorCodes.PARSE_ERROR);
+    }
+
+    try {
+      return decoder.decode(data);
+    } catch (cause) {
+      // Codecs may raise typed errors themselves (e.g. SCHEMA_ERROR)
+      if (cause instanceof PubSubLiteError) throw cause;
+      throw new PubSubLiteError(
+        `Failed to decode message as '${decoder.contentType}'`,
+        ErrorCodes.PARSE_ERROR,
+        { cause }
+      );
+    }
+  }
+
+  /**
+   * Report a message that failed verification, validation or upcasting and settle it
+   * according to its policy (`invalidMessagePolicy` unless given)
+   */
+  async function rejectInvalidMessage(
+    message: Message,
+    error: PayloadValidationError | UnsupportedVersionError | SignatureError,
+    policy: InvalidMessagePolicy = invalidMessagePolicy
+  ): Promise<void> {
+    let phase: NonNullable<ErrorContext['phase']> = 'validate';
+    let details: Record<string, unknown>;
+    if (error instanceof SignatureError) {
+      phase = 'verify';
+      details = { reason: error.reason, keyId: error.keyId };
+    } else if (error instanceof UnsupportedVersionError) {
+      phase = 'upcast';
+      details = { eventType: error.eventType, version: error.version, latestVersion: error.latestVersion };
+    } else {
+      details = { issues: error.issues };
+    }
+    reportError(
+      error,
+      { messageId: message.id, phase, message, metadata: { ...details, policy } },
+      '@valianx/pubsub-lite: Message failed validation:'
+    );
+
+    let outcome: 'ack' | 'nack' = policy === 'nack' ? 'nack' : 'ack';
+    if (deadLetter && policy === 'deadLetter') {
+      try {
+        await deadLetter.publishMessage({
+          data: message.data,
+          attributes: {
+            ...message.attributes,
+            [MessageAttributes.DEAD_LETTER_REASON]: error.code,
+            [MessageAttributes.DEAD_LETTER_SOURCE]: subscription.name,
+            [MessageAttributes.ORIGINAL_MESSAGE_ID]: message.id,
+          },
+        });
+      } catch (publishError) {
+        // Keep the message on the subscription rather than losing it
+        outcome = 'nack';
+        reportError(
+          new PubSubLiteError('Failed to publish invalid message to the dead letter topic', ErrorCodes.PUBLISH_ERROR, {
+            cause: publishError,
+          }),
+          { messageId: message.id, phase, message, metadata: { deadLetterTopic } },
+          '@valianx/pubsub-lite: Dead letter publish failed:'
+        );
+      }
+    }
+
+    if (outcome === 'nack') {
+      message.nack();
+      if (hooks?.onMessageNack) {
+        try {
+          await hooks.onMessageNack(message);
+        } catch (hookError) {
+          logger.warn('@valianx/pubsub-lite: onMessageNack hook failed:', hookError);
+        }
+      }
+    } else {
+      message.ack();
+      if (hooks?.onMessageAck) {
+        try {
+          await hooks.onMessageAck(message);
+        } catch (hookError) {
+          logger.warn('@valianx/pubsub-lite: onMessageAck hook failed:', hookError);
+        }
+      }
+    }
+  }
+
+  /**
+   * Wrap an idempotency store failure and report it with IDEMPOTENCY_ERROR
+   */
+  function reportIdempotencyError(cause: unknown, message: Message, action: string): void {
+    const error = new PubSubLiteError(
+      `Idempotency store failed to ${action}`,
+      ErrorCodes.IDEMPOTENCY_ERROR,
+      { cause }
+    );
+    reportError(
+      error,
+      { messageId: message.id, phase: 'idempotency', message, metadata: { policy: idempotencyFailurePolicy } },
+      '@valianx/pubsub-lite: Idempotency store error:'
+    );
+  }
+
+  /**
+   * Promote a leased key to 'completed' once the message has been handled
+   */
+  async function completeIdempotencyKey(store: IdempotencyStore, key: string, message: Message): Promise<void> {
+    try {
+      await store.markCompleted(key);
+    } catch (idempotencyError) {
+      reportIdempotencyError(idempotencyError, message, 'mark key as completed');
+    }
+  }
+
+  /**
+   * Release a leased key so a redelivery of the failed message is processed again
+   */
+  async function releaseIdempotencyKey(store: IdempotencyStore, key: string, message: Message): Promise<void> {
+    try {
+      await store.release(key);
+    } catch (idempotencyError) {
+      reportIdempotencyError(idempotencyError, message, 'release key');
+    }
+  }
+
+  /**
+   * Tie a leased key to how the message is settled: completed on ack, released on nack
+   * 
+   * Handlers settle messages themselves, so returning without throwing does not mean the
+   * message was processed. Only the first settlement counts, as in Pub/Sub.
+   */
+  function settleKeyWithMessage(message: Message, store: IdempotencyStore, key: string): void {
+    const ack = message.ack.bind(message);
+    const nack = message.nack.bind(message);
+    let settled = false;
+    message.ack = () => {
+      if (!settled) {
+        settled = true;
+        void completeIdempotencyKey(store, key, message);
+      }
+      ack();
+    };
+    message.nack = () => {
+      if (!settled) {
+        settled = true;
+        // Release so the redelivery is not treated as a duplicate
+        void releaseIdempotencyKey(store, key, message);
+      }
+      nack();
+    };
+  }
+
+  /**
+   * Stop pulling messages until the idempotency store answers a probe again
+   */
+  function pause(store: IdempotencyStore): void {
+    if (isPaused || !isStarted) return;
+    isPaused = true;
+
+    // Removing the last message listener makes the SDK close the stream
+    subscription.removeListener('message', onMessage);
+    logger.warn('@valianx/pubsub-lite: Idempotency store unavailable, pausing consumer until it recovers');
+
+    const probe = async (): Promise<void> => {
+      try {
+        await store.has(RECOVERY_PROBE_KEY);
+      } catch {
+        recoveryTimer = setTimeout(probe, idempotencyRecoveryInterval);
+        recoveryTimer.unref();
+        return;
+      }
+      resume();
+    };
+    recoveryTimer = setTimeout(probe, idempotencyRecoveryInterval);
+    recoveryTimer.unref();
+  }
+
+  /**
+   * Reattach the message listener after a pause
+   */
+  function resume(): void {
+    if (recoveryTimer) {
+      clearTimeout(recoveryTimer);
+      recoveryTimer = undefined;
+    }
+    if (!isPaused) return;
+    isPaused = false;
+
+    if (isStarted) {
+      subscription.on('message', onMessage);
+    }
+  }
+
+  /**
+   * Process a single delivery: decode, deduplicate, handle, then ack/nack
+   */
+  async function onMessage(message: Message): Promise<void> {
+    // Call onMessageReceived hook
+    if (hooks?.onMessageReceived) {
+      try {
+        await hooks.onMessageReceived(message);
+      } catch (hookError) {
+        logger.warn('@valianx/pubsub-lite: onMessageReceived hook failed:', hookError);
+      }
+    }
+
+    // Phase reported if processing throws
+    let phase: ErrorContext['phase'] = 'parse';
+
+    try {
+      // Messages of other event types would not match the declared payload type
+      const eventType = message.attributes?.[MessageAttributes.TYPE];
+      if (event && eventType !== undefined && eventType !== event.name) {
+        await rejectInvalidMessage(message, new PayloadValidationError([
+          { path: '', message: `Expected event type '${event.name}', got '${eventType}'` },
+        ]));
+        return;
+      }
+
+      const attributes = message.attributes ?? {};
+      phase = 'receive';
+      let stored: Buffer;
+      try {
+        stored = await readPayload(message);
+      } catch (error) {
+        if (!(await wasPayloadDeletedOnAck(message, attributes[MessageAttributes.CLAIM_CHECK]))) throw error;
+
+        // Redelivery of a message that was already handled and acked
+        message.ack();
 
-      subscription.on('message', async (message: Message) => {
-        // Call onMessageReceived hook
-        if (hooks?.onMessageReceived) {
+        // Call onMessageAck hook
+        if (hooks?.onMessageAck) {
           try {
-            await hooks.onMessageReceived(message);
+            await hooks.onMessageAck(message);
           } catch (hookError) {
-            logger.warn('@valianx/pubsub-lite: onMessageReceived hook failed:', hookError);
+            logger.warn('@valianx/pubsub-lite: onMessageAck hook failed:', hookError);
           }
         }
+        return;
+      }
+      // Forged payloads never reach decryption, idempotency or the handler
+      phase = 'verify';
+      const signatureFailure = verifyMessage(stored, attributes);
+      if (signatureFailure) {
+        await rejectInvalidMessage(message, signatureFailure, signaturePolicy);
+        return;
+      }
+      phase = 'decrypt';
+      const plaintext = await decryptMessage(stored, attributes);
+      phase = 'parse';
+      const body = await decompressPayload(plaintext, attributes[MessageAttributes.CONTENT_ENCODING], maxDecompressedBytes);
+      const cloudEvent = cloudEvents ? parseCloudEvent({ data: body, attributes }, decodeData) : undefined;
+      if (event && cloudEvent && cloudEvent.type !== event.name) {
+        await rejectInvalidMessage(message, new PayloadValidationError([
+          { path: 'type', message: `Expected event type '${event.name}', got '${cloudEvent.type}'` },
+        ]));
+        return;
+      }
+      let payload = cloudEvent ? cloudEvent.data : decodeData(body, attributes[MessageAttributes.CONTENT_TYPE]);
 
+      // Validators and handlers only ever see the latest version
+      if (upcast) {
+        phase = 'upcast';
         try {
-          // Parse JSON data
-          let data: unknown;
-          try {
-            const rawData = message.data.toString('utf8');
-            data = JSON.parse(rawData);
-          } catch (parseError) {
-            // If JSON parsing fails, pass raw string
-            data = message.data.toString('utf8');
-          }
-
-          // Check idempotency if enabled
-          if (idempotencyStore) {
-            const idempotencyKey = idempotencyKeySelector(message);
-            
-            try {
-              const alreadyProcessed = await idempotencyStore.has(idempotencyKey);
-              
-              // Call onIdempotencyCheck hook
-              if (hooks?.onIdempotencyCheck) {
-                try {
-                  await hooks.onIdempotencyCheck(idempotencyKey, alreadyProcessed);
-                } catch (hookError) {
-                  logger.warn('@valianx/pubsub-lite: onIdempotencyCheck hook failed:', hookError);
-                }
-              }
-              
-              if (alreadyProcessed) {
-                // Already processed, ack and return
-                message.ack();
-                
-                // Call onMessageAck hook
-                if (hooks?.onMessageAck) {
-                  try {
-                    await hooks.onMessageAck(message);
-                  } catch (hookError) {
-                    logger.warn('@valianx/pubsub-lite: onMessageAck hook failed:', hookError);
-                  }
-                }
-                return;
-              }
+          payload = await upcast(payload, message);
+        } catch (error) {
+          if (!(error instanceof UnsupportedVersionError)) throw error;
+          await rejectInvalidMessage(message, error);
+          return;
+        }
+      }
 
-              // Mark as being processed
-              await idempotencyStore.set(idempotencyKey);
-            } catch (idempotencyError) {
-              logger.error('@valianx/pubsub-lite: Idempotency store error, processing message anyway:', idempotencyError);
-              // Continue processing even if idempotency fails
-            }
-          }
+      // Invalid payloads never reach the idempotency store or the handler
+      phase = 'validate';
+      if (validator) {
+        const result = await validatePayload(validator, payload);
+        if (!result.valid) {
+          await rejectInvalidMessage(message, new PayloadValidationError(result.issues));
+          return;
+        }
+        payload = result.value;
+      }
+      // The handler receives the whole CloudEvent, carrying the processed data
+      const value = cloudEvent ? { ...cloudEvent, data: payload } : payload;
+      if (guard && !guard(value)) {
+        await rejectInvalidMessage(message, new PayloadValidationError([
+          { path: '', message: 'Payload failed the type guard' },
+        ]));
+        return;
+      }
+      // Without a guard, the decoded payload is trusted to match the declared type
+      const data = value as T;
+      phase = 'handle';
 
-          // Call onMessageStart hook
-          if (hooks?.onMessageStart) {
+      // Check idempotency if enabled
+      if (idempotencyStore) {
+        const idempotencyKey = idempotencyKeySelector(message, payload);
+        
+        try {
+          // Claim atomically so concurrent deliveries cannot both run the handler
+          const claimed = await idempotencyStore.tryClaim(idempotencyKey, idempotencyLeaseTtl);
+          const status = claimed ? null : await idempotencyStore.getStatus(idempotencyKey);
+          
+          // Call onIdempotencyCheck hook
+          if (hooks?.onIdempotencyCheck) {
             try {
-              await hooks.onMessageStart(message);
+              await hooks.onIdempotencyCheck(idempotencyKey, !claimed);
             } catch (hookError) {
-              logger.warn('@valianx/pubsub-lite: onMessageStart hook failed:', hookError);
+              logger.warn('@valianx/pubsub-lite: onIdempotencyCheck hook failed:', hookError);
             }
           }
-
-          // Call user handler
-          if (messageHandler) {
-            await messageHandler(data as any, message);
-          } else {
-            // No handler registered, just ack
+          
+          if (status === 'completed') {
+            // Already processed, ack and return
             message.ack();
             
             // Call onMessageAck hook
@@ -198,48 +651,135 @@ export function createConsumer(
             return;
           }
 
-          // Call onMessageSuccess hook
-          if (hooks?.onMessageSuccess) {
-            try {
-              await hooks.onMessageSuccess(message, data);
-            } catch (hookError) {
-              logger.warn('@valianx/pubsub-lite: onMessageSuccess hook failed:', hookError);
+          if (!claimed) {
+            // Another delivery holds the lease; nack so the message comes back
+            // once that delivery completes or its lease expires
+            message.nack();
+            
+            // Call onMessageNack hook
+            if (hooks?.onMessageNack) {
+              try {
+                await hooks.onMessageNack(message);
+              } catch (hookError) {
+                logger.warn('@valianx/pubsub-lite: onMessageNack hook failed:', hookError);
+              }
             }
+            return;
           }
 
-        } catch (error) {
-          // Handle processing errors
-          const err = error instanceof Error ? error : new Error(String(error));
-          
-          // Call onMessageError hook
-          if (hooks?.onMessageError) {
-            try {
-              await hooks.onMessageError(message, err);
-            } catch (hookError) {
-              logger.warn('@valianx/pubsub-lite: onMessageError hook failed:', hookError);
+          // Completed when the message is acked, released when it is nacked
+          settleKeyWithMessage(message, idempotencyStore, idempotencyKey);
+        } catch (idempotencyError) {
+          reportIdempotencyError(idempotencyError, message, 'claim key');
+
+          if (idempotencyFailurePolicy !== 'process') {
+            if (idempotencyFailurePolicy === 'pause') {
+              pause(idempotencyStore);
             }
-          }
-          
-          // Call global error handler
-          if (errorHandler) {
-            errorHandler(err);
-          } else {
-            logger.error('Unhandled consumer error:', err);
-          }
 
-          // Nack the message on error
-          message.nack();
-          
-          // Call onMessageNack hook
-          if (hooks?.onMessageNack) {
-            try {
-              await hooks.onMessageNack(message);
-            } catch (hookError) {
-              logger.warn('@valianx/pubsub-lite: onMessageNack hook failed:', hookError);
+            // Fail closed: redeliver once the store is reachable again
+            message.nack();
+            
+            // Call onMessageNack hook
+            if (hooks?.onMessageNack) {
+              try {
+                await hooks.onMessageNack(message);
+              } catch (hookError) {
+                logger.warn('@valianx/pubsub-lite: onMessageNack hook failed:', hookError);
+              }
             }
+            return;
           }
+          // Fail open: continue processing without deduplication
         }
-      });
+      }
+
+      // Call onMessageStart hook
+      if (hooks?.onMessageStart) {
+        try {
+          await hooks.onMessageStart(message);
+        } catch (hookError) {
+          logger.warn('@valianx/pubsub-lite: onMessageStart hook failed:', hookError);
+        }
+      }
+
+      // Only messages that reach the handler may release their payload; rejected ones still need it
+      const reference = attributes[MessageAttributes.CLAIM_CHECK];
+      if (reference !== undefined && claimCheck?.deleteAfterAck) {
+        deletePayloadOnAck(message, claimCheck.store, reference);
+      }
+
+      // Call user handler
+      if (messageHandler) {
+        await messageHandler(data, message);
+      } else {
+        // No handler registered, just ack
+        message.ack();
+        
+        // Call onMessageAck hook
+        if (hooks?.onMessageAck) {
+          try {
+            await hooks.onMessageAck(message);
+          } catch (hookError) {
+            logger.warn('@valianx/pubsub-lite: onMessageAck hook failed:', hookError);
+          }
+        }
+        return;
+      }
+
+      // Call onMessageSuccess hook
+      if (hooks?.onMessageSuccess) {
+        try {
+          await hooks.onMessageSuccess(message, data);
+        } catch (hookError) {
+          logger.warn('@valianx/pubsub-lite: onMessageSuccess hook failed:', hookError);
+        }
+      }
+
+    } catch (error) {
+      // Handle processing errors
+      const err = error instanceof Error ? error : new Error(String(error));
+
+      // Call onMessageError hook
+      if (hooks?.onMessageError) {
+        try {
+          await hooks.onMessageError(message, err);
+        } catch (hookError) {
+          logger.warn('@valianx/pubsub-lite: onMessageError hook failed:', hookError);
+        }
+      }
+      
+      // Call global error handler
+      reportError(err, { messageId: message.id, phase, message }, 'Unhandled consumer error:');
+
+      // Nack the message on error; a leased key is released unless the handler already settled it
+      message.nack();
+      
+      // Call onMessageNack hook
+      if (hooks?.onMessageNack) {
+        try {
+          await hooks.onMessageNack(message);
+        } catch (hookError) {
+          logger.warn('@valianx/pubsub-lite: onMessageNack hook failed:', hookError);
+        }
+      }
+    }
+  }
+
+  const consumer: Consumer<T> = {
+    on(event: string, handler: unknown): void {
+      if (event === 'message') {
+        messageHandler = handler as MessageHandler<T>;
+      } else if (event === 'error') {
+        errorHandler = handler as ErrorHandler;
+      }
+    },
+
+    start(): void {
+      if (isStarted) return;
+      isStarted = true;
+
+      subscription.on('message', onMessage);
 
       subscription.on('error', (error: Error) => {
         if (errorHandler) {
@@ -254,6 +794,9 @@ export function createConsumer(
       if (!isStarted) return;
       isStarted = false;
 
+      // Cancel any pending recovery probe
+      resume();
+
       // Close subscription
       await subscription.close();
 
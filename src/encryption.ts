@@ -0,0 +1,148 @@
+/**
+ * @valianx/pubsub-lite - Envelope encryption (AES-256-GCM)
+ */
+
+import { createCipheriv, createDecipheriv, randomBytes } from 'node:crypto';
+import { ErrorCodes, MessageAttributes } from './types.js';
+import type { EncryptionKey, KeyProvider, StaticKeyProviderOptions } from './types.js';
+import { PubSubLiteError, UnknownKeyError } from './errors.js';
+
+/**
+ * Value of the `encryption` attribute on encrypted messages
+ */
+export const ENCRYPTION_ALGORITHM = 'aes-256-gcm';
+
+const KEY_BYTES = 32;
+const IV_BYTES = 12;
+const TAG_BYTES = 16;
+
+/**
+ * Key provider backed by a fixed set of keys, e.g. loaded from a secret manager at startup
+ *
+ * Rotate by adding the new key and pointing `currentKeyId` at it; keep retired keys
+ * until every message encrypted with them has been consumed.
+ *
+ * @example
+ * ```typescript
+ * const keys = new StaticKeyProvider({
+ *   currentKeyId: '2024-06',
+ *   keys: { '2024-01': oldKey, '2024-06': Buffer.from(process.env.PAYLOAD_KEY!, 'base64') }
+ * });
+ * ```
+ */
+export class StaticKeyProvider implements KeyProvider {
+  private readonly keys: Map<string, Buffer>;
+  private readonly currentKeyId: string;
+
+  constructor(options: StaticKeyProviderOptions) {
+    this.keys = new Map(Object.entries(options.keys));
+    this.currentKeyId = options.currentKeyId;
+    if (!this.keys.has(this.currentKeyId)) {
+      throw new PubSubLiteError(`Current key '${this.currentKeyId}' is not among the keys`, ErrorCodes.INVALID_CONFIG);
+    }
+    for (const [id, key] of this.keys) {
+      assertKeyLength(id, key);
+    }
+  }
+
+  getCurrentKey(): EncryptionKey {
+    return { id: this.currentKeyId, key: this.keys.get(this.currentKeyId)! };
+  }
+
+  getKey(id: string): Buffer | undefined {
+    return this.keys.get(id);
+  }
+}
+
+/**
+ * Encrypt a payload under a fresh data key, wrapped with the provider's current key
+ *
+ * The message data becomes `iv | ciphertext | tag`; the wrapped data key and the ID of
+ * the key that wrapped it are returned as attributes.
+ */
+export async function encryptPayload(
+  data: Buffer,
+  keyProvider: KeyProvider
+): Promise<{ data: Buffer; attributes: Record<string, string> }> {
+  const { id, key } = await keyProvider.getCurrentKey();
+  assertKeyLength(id, key);
+
+  const dataKey = randomBytes(KEY_BYTES);
+  // The key ID is authenticated with the data key, so it cannot be swapped for another
+  const wrappedKey = seal(key, dataKey, Buffer.from(id, 'utf8'));
+
+  return {
+    data: seal(dataKey, data),
+    attributes: {
+      [MessageAttributes.ENCRYPTION]: ENCRYPTION_ALGORITHM,
+      [MessageAttributes.ENCRYPTION_KEY_ID]: id,
+      [MessageAttributes.ENCRYPTED_DATA_KEY]: wrappedKey.toString('base64'),
+    },
+  };
+}
+
+/**
+ * Decrypt a payload produced by `encryptPayload`
+ *
+ * @throws {UnknownKeyError} when the provider does not know the message's key ID
+ * @throws {PubSubLiteError} `ENCRYPTION_ERROR` when the message is malformed or was tampered with
+ */
+export async function decryptPayload(
+  data: Buffer,
+  attributes: Record<string, string>,
+  keyProvider: KeyProvider
+): Promise<Buffer> {
+  const algorithm = attributes[MessageAttributes.ENCRYPTION];
+  const keyId = attributes[MessageAttributes.ENCRYPTION_KEY_ID];
+  const wrappedKey = attributes[MessageAttributes.ENCRYPTED_DATA_KEY];
+  if (algorithm !== ENCRYPTION_ALGORITHM) {
+    throw new PubSubLiteError(`Unsupported encryption algorithm '${algorithm}'`, ErrorCodes.ENCRYPTION_ERROR);
+  }
+  if (keyId === undefined || wrappedKey === undefined) {
+    throw new PubSubLiteError('Encrypted message is missing its key ID or data key', ErrorCodes.ENCRYPTION_ERROR);
+  }
+
+  const key = await keyProvider.getKey(keyId);
+  if (!key) {
+    throw new UnknownKeyError(keyId);
+  }
+
+  try {
+    const dataKey = open(key, Buffer.from(wrappedKey, 'base64'), Buffer.from(keyId, 'utf8'));
+    return open(dataKey, data);
+  } catch (cause) {
+    throw new PubSubLiteError(`Failed to decrypt message with key '${keyId}'`, ErrorCodes.ENCRYPTION_ERROR, { cause });
+  }
+}
+
+/**
+ * AES-256-GCM encrypt to `iv | ciphertext | tag`
+ */
+function seal(key: Buffer, plaintext: Buffer, aad?: Buffer): Buffer {
+  const iv = randomBytes(IV_BYTES);
+  const cipher = createCipheriv('aes-256-gcm', key, iv);
+  if (aad) cipher.setAAD(aad);
+  const ciphertext = Buffer.concat([cipher.update(plaintext), cipher.final()]);
+  return Buffer.concat([iv, ciphertext, cipher.getAuthTag()]);
+}
+
+/**
+ * AES-256-GCM decrypt `iv | ciphertext | tag`; throws if authentication fails
+ */
+function open(key: Buffer, sealed: Buffer, aad?: Buffer): Buffer {
+  if (sealed.length < IV_BYTES + TAG_BYTES) {
+    throw new Error('Ciphertext is truncated');
+  }
+  const iv = sealed.subarray(0, IV_BYTES);
+  const tag = sealed.subarray(sealed.length - TAG_BYTES);
+  const decipher = createDecipheriv('aes-256-gcm', key, iv);
+  decipher.setAuthTag(tag);
+  if (aad) decipher.setAAD(aad);
+  return Buffer.concat([decipher.update(sealed.subarray(IV_BYTES, sealed.length - TAG_BYTES)), decipher.final()]);
+}
+
+function assertKeyLength(id: string, key: Buffer): void {
+  if (key.length !== KEY_BYTES) {
+    throw new PubSubLiteError(`Key '${id}' must be ${KEY_BYTES} bytes for AES-256`, ErrorCodes.INVALID_CONFIG);
+  }
+}
@@ -0,0 +1,128 @@
+/**
+ * @valianx/pubsub-lite - Error types
+ */
+
+import { ErrorCodes } from './types.js';
+import type { ErrorCode, PublishLimitReason, SignatureFailureReason, ValidationIssue } from './types.js';
+
+/**
+ * Base error for failures raised by the library
+ * 
+ * Carries one of the `ErrorCodes` so callers can branch on the failure
+ * category without parsing messages.
+ * 
+ * @example
+ * ```typescript
+ * consumer.on('error', (error) => {
+ *   if (error instanceof PubSubLiteError && error.code === ErrorCodes.IDEMPOTENCY_ERROR) {
+ *     alertOnCall(error);
+ *   }
+ * });
+ * ```
+ */
+export class PubSubLiteError extends Error {
+  /** Error category from `ErrorCodes` */
+  readonly code: ErrorCode;
+
+  constructor(message: string, code: ErrorCode, options: { cause?: unknown } = {}) {
+    super(message, options.cause !== undefined ? { cause: options.cause } : undefined);
+    this.name = 'PubSubLiteError';
+    this.code = code;
+  }
+}
+
+/**
+ * Raised when a payload fails its validator
+ * 
+ * Uses the `SCHEMA_ERROR` code and lists every failure with its path.
+ */
+export class PayloadValidationError extends PubSubLiteError {
+  /** Path-level validation failures */
+  readonly issues: ValidationIssue[];
+
+  constructor(issues: ValidationIssue[]) {
+    const summary = issues.map((issue) => (issue.path ? `${issue.path}: ${issue.message}` : issue.message));
+    super(`Payload failed validation: ${summary.join('; ')}`, ErrorCodes.SCHEMA_ERROR);
+    this.name = 'PayloadValidationError';
+    this.issues = issues;
+  }
+}
+
+/**
+ * Raised when a message carries an event version the consumer has no upcaster for,
+ * typically a newer version from a producer deployed ahead of its consumers
+ * 
+ * Uses the `UNSUPPORTED_VERSION` code.
+ */
+export class UnsupportedVersionError extends PubSubLiteError {
+  /** Event type from the `type` attribute */
+  readonly eventType: string;
+  /** Version from the `version` attribute */
+  readonly version: string;
+  /** Latest version the consumer handles */
+  readonly latestVersion: string;
+
+  constructor(eventType: string, version: string, latestVersion: string) {
+    super(
+      `Unsupported version '${version}' of event '${eventType}' (latest known: '${latestVersion}')`,
+      ErrorCodes.UNSUPPORTED_VERSION
+    );
+    this.name = 'UnsupportedVersionError';
+    this.eventType = eventType;
+    this.version = version;
+    this.latestVersion = latestVersion;
+  }
+}
+
+/**
+ * Raised when a message references a key its key provider does not know, e.g. a key
+ * retired too early or one the consumer was never given
+ * 
+ * Uses the `UNKNOWN_KEY` code.
+ */
+export class UnknownKeyError extends PubSubLiteError {
+  /** Key ID from the message attributes */
+  readonly keyId: string;
+
+  constructor(keyId: string) {
+    super(`Unknown key '${keyId}'`, ErrorCodes.UNKNOWN_KEY);
+    this.name = 'UnknownKeyError';
+    this.keyId = keyId;
+  }
+}
+
+/**
+ * Raised when a message is unsigned, signed with an unknown key or tampered with
+ * 
+ * Uses the `SIGNATURE_ERROR` code.
+ */
+export class SignatureError extends PubSubLiteError {
+  /** Why verification failed */
+  readonly reason: SignatureFailureReason;
+  /** Key ID from the message attributes, when present */
+  readonly keyId: string | undefined;
+
+  constructor(reason: SignatureFailureReason, message: string, keyId?: string) {
+    super(message, ErrorCodes.SIGNATURE_ERROR);
+    this.name = 'SignatureError';
+    this.reason = reason;
+    this.keyId = keyId;
+  }
+}
+
+/**
+ * Raised before publishing when a message breaks a Pub/Sub limit, e.g. an oversized
+ * payload or an attribute value that is not a string
+ * 
+ * Uses the `PUBLISH_ERROR` code. The message is never sent, so it is not retried.
+ */
+export class PublishLimitError extends PubSubLiteError {
+  /** Which limit the message breaks */
+  readonly reason: PublishLimitReason;
+
+  constructor(reason: PublishLimitReason, message: string) {
+    super(message, ErrorCodes.PUBLISH_ERROR);
+    this.name = 'PublishLimitError';
+    this.reason = reason;
+  }
+}
@@ -0,0 +1,176 @@
+/**
+ * @valianx/pubsub-lite - Event catalog
+ */
+
+import { ErrorCodes } from './types.js';
+import type { Codec, EventDefinition, EventSchema, PayloadValidator } from './types.js';
+import { PubSubLiteError } from './errors.js';
+
+/**
+ * A subscription consuming a cataloged event
+ */
+export interface EventConsumerEntry {
+  event: EventDefinition;
+  subscription: string;
+}
+
+/**
+ * What a publisher sends, as recorded by `createPublisher`
+ */
+export interface PublisherRegistration {
+  topic: string;
+  event?: EventDefinition;
+  codec: Codec;
+  /** Default attributes set on every message */
+  attributes: Record<string, string>;
+  validator?: PayloadValidator;
+}
+
+/**
+ * What a consumer receives, as recorded by `createConsumer`
+ */
+export interface ConsumerRegistration {
+  subscription: string;
+  event?: EventDefinition;
+  /** Decoder for messages without a content type, first; then the additional decoders */
+  codecs: Codec[];
+  validator?: PayloadValidator;
+}
+
+/**
+ * Runtime catalog of event definitions and of what this service publishes and consumes
+ * 
+ * `defineEvent` registers into the shared `eventRegistry`, and every publisher and
+ * consumer records itself, so tooling (e.g. `generateAsyncApi`) can describe the service.
+ */
+export class EventRegistry {
+  private readonly events = new Map<string, EventDefinition>();
+  // Keyed by topic/event and by subscription, so recreating an endpoint does not grow the registry
+  private readonly publishers = new Map<string, PublisherRegistration>();
+  private readonly consumers = new Map<string, ConsumerRegistration>();
+
+  /**
+   * Register an event definition
+   * 
+   * Redefining the same name and version is allowed (e.g. modules loaded twice) as
+   * long as it targets the same topic.
+   */
+  define<T>(definition: EventDefinition<T>): EventDefinition<T> {
+    const key = eventKey(definition.name, definition.version);
+    const existing = this.events.get(key);
+    if (existing && existing.topic !== definition.topic) {
+      throw new PubSubLiteError(
+        `Event '${definition.name}' v${definition.version} is already defined for topic '${existing.topic}'`,
+        ErrorCodes.INVALID_CONFIG
+      );
+    }
+
+    this.events.set(key, definition as EventDefinition);
+    return definition;
+  }
+
+  /** Find a definition by name, optionally pinned to a version (default: the latest defined) */
+  get(name: string, version?: string): EventDefinition | undefined {
+    if (version !== undefined) {
+      return this.events.get(eventKey(name, version));
+    }
+    return this.list().filter((event) => event.name === name).pop();
+  }
+
+  /** All defined events, in definition order */
+  list(): EventDefinition[] {
+    return [...this.events.values()];
+  }
+
+  /** Events published by publishers created from a definition */
+  listProduced(): EventDefinition[] {
+    const events = new Set<EventDefinition>();
+    for (const publisher of this.publishers.values()) {
+      if (publisher.event) events.add(publisher.event);
+    }
+    return [...events];
+  }
+
+  /** Events consumed by consumers created with an `event` option */
+  listConsumed(): EventConsumerEntry[] {
+    return this.listConsumers().flatMap(({ event, subscription }) => (event ? [{ event, subscription }] : []));
+  }
+
+  /** All publishers created in this process */
+  listPublishers(): PublisherRegistration[] {
+    return [...this.publishers.values()];
+  }
+
+  /** All consumers created in this process */
+  listConsumers(): ConsumerRegistration[] {
+    return [...this.consumers.values()];
+  }
+
+  /** Record a publisher; a later publisher for the same topic and event replaces it */
+  registerPublisher(registration: PublisherRegistration): void {
+    const event = registration.event;
+    const key = event ? `${registration.topic}:${eventKey(event.name, event.version)}` : registration.topic;
+    this.publishers.set(key, registration);
+  }
+
+  /** Record a consumer; a later consumer for the same subscription replaces it */
+  registerConsumer(registration: ConsumerRegistration): void {
+    this.consumers.set(registration.subscription, registration);
+  }
+
+  /** Remove all definitions and publisher/consumer records (for testing) */
+  clear(): void {
+    this.events.clear();
+    this.publishers.clear();
+    this.consumers.clear();
+  }
+}
+
+/**
+ * Global slot for the shared registry, so the ESM and CJS builds (and the AsyncAPI
+ * script) loaded in one process see the same catalog
+ */
+const REGISTRY_KEY = Symbol.for('@valianx/pubsub-lite/event-registry');
+
+/**
+ * Shared registry used by `defineEvent` and the publisher/consumer factories
+ */
+export const eventRegistry: EventRegistry = ((globalThis as Record<symbol, EventRegistry | undefined>)[
+  REGISTRY_KEY
+] ??= new EventRegistry());
+
+/**
+ * Define a shared event contract and register it in the event catalog
+ * 
+ * The payload type is inferred from zod-style schemas and type guards, or given
+ * explicitly for JSON Schemas.
+ * 
+ * @example
+ * ```typescript
+ * export const OrderCreated = defineEvent<OrderCreatedPayload>({
+ *   name: 'order.created',
+ *   version: '1',
+ *   topic: 'orders',
+ *   schema: { type: 'object', required: ['orderId'] }
+ * });
+ * 
+ * const publisher = createPublisher(client, OrderCreated);
+ * await publisher.publish({ orderId: 'o-1' }); // type and version attributes set
+ * ```
+ */
+export function defineEvent<T = unknown>(definition: {
+  name: string;
+  version: string;
+  topic: string;
+  schema?: EventSchema<T>;
+  description?: string;
+}): EventDefinition<T> {
+  if (!definition.name || !definition.version || !definition.topic) {
+    throw new PubSubLiteError('Event definitions require a name, version and topic', ErrorCodes.INVALID_CONFIG);
+  }
+  return eventRegistry.define(Object.freeze({ ...definition }) as EventDefinition<T>);
+}
+
+function eventKey(name: string, version: string): string {
+  return `${name}@${version}`;
+}
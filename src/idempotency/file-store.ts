@@ -0,0 +1,304 @@
+/**
+ * @valianx/pubsub-lite - File-backed Idempotency Store (single instance, persistent)
+ */
+
+import { appendFile, mkdir, readFile, rename, truncate, writeFile } from 'node:fs/promises';
+import { dirname } from 'node:path';
+import { Defaults } from '../types.js';
+import type {
+  FileStoreOptions,
+  IdempotencyStore,
+  IdempotencyStatus,
+  IdempotencyStoreStats,
+} from '../types.js';
+
+/**
+ * Stored state for a single idempotency key
+ */
+interface FileEntry {
+  status: IdempotencyStatus;
+  expiry: number;
+}
+
+/**
+ * One line of the append-only log: a key's new state, or null when it was removed
+ */
+interface LogRecord {
+  k: string;
+  s: IdempotencyStatus | null;
+  e?: number;
+}
+
+/**
+ * Persistent idempotency store backed by an append-only log file
+ * 
+ * Every state change is appended as one JSON line; the full state is kept in memory and
+ * rebuilt from the log on startup, so deduplication survives restarts without Redis.
+ * The log is compacted (rewritten with only live keys) once it grows well past the
+ * number of live keys. A torn last line from a crash is cut off on load.
+ * 
+ * @warning Only one process may use a given file. Use RedisIdempotencyStore when several
+ * consumer instances share a subscription.
+ * 
+ * @example
+ * ```typescript
+ * const store = new FileIdempotencyStore({
+ *   path: '/var/lib/my-service/idempotency.log',
+ *   ttl: 24 * 60 * 60 * 1000 // 24 hours
+ * });
+ * ```
+ */
+export class FileIdempotencyStore implements IdempotencyStore {
+  private store = new Map<string, FileEntry>();
+  private readonly path: string;
+  private readonly ttl: number;
+  private readonly compactionThreshold: number;
+  private readonly ready: Promise<void>;
+  private writeChain: Promise<void> = Promise.resolve();
+  private cleanupTimer: ReturnType<typeof setTimeout> | undefined;
+  private logRecords = 0;
+  private successfulChecks = 0;
+  private failedChecks = 0;
+  private lastError: string | undefined;
+  private lastWriteFailed = false;
+  private closed = false;
+
+  constructor(options: FileStoreOptions) {
+    this.path = options.path;
+    this.ttl = options.ttl ?? Defaults.IDEMPOTENCY_TTL_MS;
+    this.compactionThreshold = options.compactionThreshold ?? Defaults.FILE_STORE_COMPACTION_THRESHOLD;
+
+    this.ready = this.load();
+    // Load failures are recorded and rethrown from every operation
+    this.ready.catch((error) => {
+      this.recordFailure(error);
+      this.lastWriteFailed = true;
+    });
+
+    this.startCleanup(options.cleanupInterval ?? 60000); // 1 minute
+  }
+
+  async has(key: string): Promise<boolean> {
+    return (await this.getStatus(key)) !== null;
+  }
+
+  async set(key: string, ttl?: number): Promise<void> {
+    await this.markCompleted(key, ttl);
+  }
+
+  async getStatus(key: string): Promise<IdempotencyStatus | null> {
+    await this.ready;
+    this.successfulChecks++;
+    const entry = this.store.get(key);
+    if (entry === undefined || Date.now() > entry.expiry) {
+      return null;
+    }
+    return entry.status;
+  }
+
+  async tryClaim(key: string, ttl: number = Defaults.IDEMPOTENCY_LEASE_MS): Promise<boolean> {
+    await this.ready;
+    // Check and set run in the same tick, so concurrent claims cannot interleave
+    const entry = this.store.get(key);
+    if (entry !== undefined && Date.now() <= entry.expiry) {
+      this.successfulChecks++;
+      return false;
+    }
+
+    await this.apply(key, { status: 'processing', expiry: Date.now() + ttl });
+    return true;
+  }
+
+  async markCompleted(key: string, ttl?: number): Promise<void> {
+    await this.ready;
+    await this.apply(key, { status: 'completed', expiry: Date.now() + (ttl ?? this.ttl) });
+  }
+
+  async release(key: string): Promise<void> {
+    await this.ready;
+    // Only drop in-flight leases; completed keys must survive a late release
+    if (this.store.get(key)?.status === 'processing') {
+      await this.apply(key, null);
+    } else {
+      this.successfulChecks++;
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    await this.ready;
+    await this.apply(key, null);
+  }
+
+  async getStats(): Promise<IdempotencyStoreStats> {
+    const now = Date.now();
+    let totalKeys = 0;
+    for (const entry of this.store.values()) {
+      if (now <= entry.expiry) {
+        totalKeys++;
+      }
+    }
+
+    let connectionStatus: IdempotencyStoreStats['connectionStatus'] = 'connected';
+    if (this.closed) {
+      connectionStatus = 'disconnected';
+    } else if (this.lastWriteFailed) {
+      connectionStatus = 'error';
+    }
+
+    return {
+      totalKeys,
+      successfulChecks: this.successfulChecks,
+      failedChecks: this.failedChecks,
+      connectionStatus,
+      ...(this.lastError !== undefined && { lastError: this.lastError }),
+    };
+  }
+
+  async close(): Promise<void> {
+    this.closed = true;
+    if (this.cleanupTimer) {
+      clearInterval(this.cleanupTimer);
+      this.cleanupTimer = undefined;
+    }
+    // Let pending appends reach the file
+    await this.writeChain;
+  }
+
+  /**
+   * Update a key in memory and append the change to the log, undoing it if the write fails
+   */
+  private async apply(key: string, entry: FileEntry | null): Promise<void> {
+    const previous = this.store.get(key);
+    if (entry) {
+      this.store.set(key, entry);
+    } else {
+      this.store.delete(key);
+    }
+
+    const record: LogRecord = entry ? { k: key, s: entry.status, e: entry.expiry } : { k: key, s: null };
+    try {
+      await this.enqueue(async () => {
+        await appendFile(this.path, JSON.stringify(record) + '\n', 'utf8');
+        this.logRecords++;
+      });
+      this.successfulChecks++;
+      this.lastWriteFailed = false;
+    } catch (error) {
+      this.lastWriteFailed = true;
+      if (previous) {
+        this.store.set(key, previous);
+      } else {
+        this.store.delete(key);
+      }
+      this.recordFailure(error);
+      throw error;
+    }
+
+    if (this.shouldCompact()) {
+      await this.compact();
+    }
+  }
+
+  /**
+   * Serialize file writes so appends and compactions never interleave
+   */
+  private enqueue(operation: () => Promise<void>): Promise<void> {
+    const result = this.writeChain.then(operation);
+    this.writeChain = result.catch(() => undefined);
+    return result;
+  }
+
+  private async load(): Promise<void> {
+    await mkdir(dirname(this.path), { recursive: true });
+
+    let content: Buffer;
+    try {
+      content = await readFile(this.path);
+    } catch (error) {
+      if ((error as { code?: string }).code === 'ENOENT') {
+        return;
+      }
+      throw error;
+    }
+
+    // Torn write from a crash: cut it off, or the next append would be glued onto it
+    const end = content.lastIndexOf('\n') + 1;
+    if (end < content.length) {
+      await truncate(this.path, end);
+      content = content.subarray(0, end);
+    }
+
+    const now = Date.now();
+    for (const line of content.toString('utf8').split('\n')) {
+      if (!line) continue;
+      let record: LogRecord;
+      try {
+        record = JSON.parse(line) as LogRecord;
+      } catch {
+        // Corrupt line; later records are still valid
+        continue;
+      }
+      this.logRecords++;
+      if (record.s === null || record.e === undefined || now > record.e) {
+        this.store.delete(record.k);
+      } else {
+        this.store.set(record.k, { status: record.s, expiry: record.e });
+      }
+    }
+
+    if (this.shouldCompact()) {
+      await this.compact();
+    }
+  }
+
+  private shouldCompact(): boolean {
+    return this.logRecords > this.compactionThreshold && this.logRecords > this.store.size * 2;
+  }
+
+  /**
+   * Rewrite the log with only live keys, atomically replacing the old file
+   */
+  private async compact(): Promise<void> {
+    try {
+      await this.enqueue(async () => {
+        const now = Date.now();
+        const lines: string[] = [];
+        for (const [key, entry] of this.store.entries()) {
+          if (now <= entry.expiry) {
+            lines.push(JSON.stringify({ k: key, s: entry.status, e: entry.expiry } satisfies LogRecord));
+          }
+        }
+
+        const tempPath = `${this.path}.compact`;
+        await writeFile(tempPath, lines.length > 0 ? lines.join('\n') + '\n' : '', 'utf8');
+        await rename(tempPath, this.path);
+        this.logRecords = lines.length;
+      });
+    } catch (error) {
+      // The uncompacted log is still complete; try again on the next trigger
+      this.recordFailure(error);
+    }
+  }
+
+  private startCleanup(interval: number): void {
+    this.cleanupTimer = setInterval(() => {
+      const now = Date.now();
+      for (const [key, entry] of this.store.entries()) {
+        if (now > entry.expiry) {
+          this.store.delete(key);
+        }
+      }
+      if (this.shouldCompact()) {
+        void this.compact();
+      }
+    }, interval);
+
+    // Don't keep the process alive for this timer
+    this.cleanupTimer.unref();
+  }
+
+  private recordFailure(error: unknown): void {
+    this.failedChecks++;
+    this.lastError = error instanceof Error ? error.message : String(error);
+  }
+}
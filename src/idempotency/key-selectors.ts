@@ -0,0 +1,134 @@
+/**
+ * @valianx/pubsub-lite - Built-in idempotency key selectors
+ */
+
+import { createHash } from 'node:crypto';
+import type { Message } from '@google-cloud/pubsub';
+import type { IdempotencyKeySelector } from '../types.js';
+
+/**
+ * Options shared by selectors that read a field which may be missing
+ */
+export interface KeySelectorFallbackOptions {
+  /** Selector used when the field is missing or empty (default: the Pub/Sub message ID) */
+  fallback?: IdempotencyKeySelector;
+}
+
+/**
+ * Key = Pub/Sub message ID (the consumer default)
+ * 
+ * Only deduplicates redeliveries; a second publish of the same event gets a new ID.
+ */
+export function byMessageId(): IdempotencyKeySelector {
+  return (message: Message) => message.id;
+}
+
+/**
+ * Key = value of a message attribute, e.g. an `idempotencyKey` set by the producer
+ * 
+ * @example
+ * ```typescript
+ * idempotencyKeySelector: byAttribute('idempotencyKey')
+ * ```
+ */
+export function byAttribute(name: string, options: KeySelectorFallbackOptions = {}): IdempotencyKeySelector {
+  const fallback = options.fallback ?? byMessageId();
+  return (message: Message, data: unknown) => {
+    const value = message.attributes?.[name];
+    return value ? value : fallback(message, data);
+  };
+}
+
+/**
+ * Key = SHA-256 of the canonicalized decoded payload (object keys sorted recursively)
+ * 
+ * Hashes the payload the handler receives, not the bytes on the wire, so identical
+ * business events deduplicate even when they are compressed, encrypted (fresh IV per
+ * publish) or wrapped in CloudEvents with a new id and time. Binary payloads are hashed
+ * byte for byte, so this selector never needs a fallback.
+ */
+export function byPayloadHash(): IdempotencyKeySelector {
+  return (_message: Message, data: unknown) => {
+    const hash = createHash('sha256');
+    if (data instanceof Uint8Array) {
+      hash.update(data);
+    } else {
+      hash.update(canonicalJson(data));
+    }
+    return hash.digest('hex');
+  };
+}
+
+/**
+ * Key = value at a dotted path in the decoded payload, e.g. `order.id` or `items.0.sku`
+ * 
+ * Falls back when the payload is not an object or the value is missing, null or empty.
+ * Non-string values are JSON-encoded.
+ * 
+ * @example
+ * ```typescript
+ * idempotencyKeySelector: byJsonPath('order.id')
+ * ```
+ */
+export function byJsonPath(path: string, options: KeySelectorFallbackOptions = {}): IdempotencyKeySelector {
+  const fallback = options.fallback ?? byMessageId();
+  const segments = path.split('.');
+  return (message: Message, data: unknown) => {
+    let value = data;
+    for (const segment of segments) {
+      if (value === null || typeof value !== 'object') {
+        return fallback(message, data);
+      }
+      value = (value as Record<string, unknown>)[segment];
+    }
+
+    if (value === undefined || value === null || value === '') {
+      return fallback(message, data);
+    }
+    return typeof value === 'string' ? value : JSON.stringify(value);
+  };
+}
+
+/**
+ * Prefix another selector's key, e.g. with the subscription name so two subscriptions
+ * on the same topic deduplicate independently in a shared store
+ * 
+ * @example
+ * ```typescript
+ * idempotencyKeySelector: withPrefix('orders-sub', byAttribute('idempotencyKey'))
+ * ```
+ */
+export function withPrefix(prefix: string, selector: IdempotencyKeySelector): IdempotencyKeySelector {
+  return (message: Message, data: unknown) => `${prefix}:${selector(message, data)}`;
+}
+
+/**
+ * Serialize a decoded payload as JSON with object keys sorted at every level
+ * 
+ * Also covers values codecs produce beyond JSON: bytes (base64), bigints and objects
+ * with a `toJSON` method such as dates.
+ */
+function canonicalJson(value: unknown): string {
+  if (value instanceof Uint8Array) {
+    return JSON.stringify(Buffer.from(value).toString('base64'));
+  }
+  if (typeof value === 'bigint') {
+    return value.toString();
+  }
+  if (Array.isArray(value)) {
+    return `[${value.map(canonicalJson).join(',')}]`;
+  }
+  if (value !== null && typeof value === 'object') {
+    const toJSON = (value as { toJSON?: unknown }).toJSON;
+    if (typeof toJSON === 'function') {
+      return canonicalJson(toJSON.call(value));
+    }
+    const entries = Object.keys(value)
+      .filter((key) => (value as Record<string, unknown>)[key] !== undefined)
+      .sort()
+      .map((key) => `${JSON.stringify(key)}:${canonicalJson((value as Record<string, unknown>)[key])}`);
+    return `{${entries.join(',')}}`;
+  }
+  // undefined, functions and symbols have no JSON form
+  return JSON.stringify(value) ?? 'null';
+}
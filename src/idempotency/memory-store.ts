@@ -2,45 +2,142 @@
  * @valianx/pubsub-lite - In-Memory Idempotency Store (for tests/POC)
  */
 
-import type { IdempotencyStore } from '../types.js';
+import { Defaults } from '../types.js';
+import type {
+  IdempotencyStore,
+  IdempotencyStatus,
+  IdempotencyStoreStats,
+  InMemoryStoreOptions,
+} from '../types.js';
+
+/**
+ * Stored state for a single idempotency key
+ */
+interface MemoryEntry {
+  status: IdempotencyStatus;
+  expiry: number;
+}
+
+/**
+ * Rough per-entry overhead in bytes (Map slot plus entry object), used for memory estimates
+ */
+const ENTRY_OVERHEAD_BYTES = 64;
 
 /**
  * Simple in-memory idempotency store for testing and POC scenarios
  * 
+ * With `maxEntries` set, the store is bounded and evicts the least recently used key
+ * when full, which makes it safe for long-running single-instance consumers.
+ * 
  * @warning This store does not persist across restarts and should not be used in production
  * with multiple consumer instances. Use RedisIdempotencyStore for production.
+ * 
+ * @example
+ * ```typescript
+ * const store = new InMemoryIdempotencyStore({
+ *   maxEntries: 10_000,
+ *   onEvict: (key, status) => console.debug('Evicted', key, status)
+ * });
+ * ```
  */
 export class InMemoryIdempotencyStore implements IdempotencyStore {
-  private store = new Map<string, number>();
+  private store = new Map<string, MemoryEntry>();
   private cleanupTimer: ReturnType<typeof setTimeout> | undefined;
   private readonly cleanupInterval: number;
+  private readonly maxEntries: number | undefined;
+  private readonly onEvict: InMemoryStoreOptions['onEvict'];
+  private successfulChecks = 0;
+  private evictions = 0;
+  private closed = false;
 
-  constructor(options: { cleanupInterval?: number } = {}) {
+  constructor(options: InMemoryStoreOptions = {}) {
     this.cleanupInterval = options.cleanupInterval ?? 60000; // 1 minute
+    this.maxEntries = options.maxEntries;
+    this.onEvict = options.onEvict;
     this.startCleanup();
   }
 
   async has(key: string): Promise<boolean> {
-    const expiry = this.store.get(key);
-    if (expiry === undefined) {
-      return false;
+    return (await this.getStatus(key)) !== null;
+  }
+
+  async set(key: string, ttl?: number): Promise<void> {
+    await this.markCompleted(key, ttl);
+  }
+
+  async getStatus(key: string): Promise<IdempotencyStatus | null> {
+    this.successfulChecks++;
+    const entry = this.store.get(key);
+    if (entry === undefined) {
+      return null;
     }
 
     // Check if expired
-    if (Date.now() > expiry) {
+    if (Date.now() > entry.expiry) {
       this.store.delete(key);
+      return null;
+    }
+
+    this.touch(key, entry);
+    return entry.status;
+  }
+
+  async tryClaim(key: string, ttl: number = Defaults.IDEMPOTENCY_LEASE_MS): Promise<boolean> {
+    // Check and set run in the same tick, so concurrent claims cannot interleave
+    this.successfulChecks++;
+    const entry = this.store.get(key);
+    if (entry !== undefined && Date.now() <= entry.expiry) {
+      this.touch(key, entry);
       return false;
     }
 
+    this.write(key, { status: 'processing', expiry: Date.now() + ttl });
     return true;
   }
 
-  async set(key: string, ttl: number = 6 * 60 * 60 * 1000): Promise<void> {
-    const expiry = Date.now() + ttl;
-    this.store.set(key, expiry);
+  async markCompleted(key: string, ttl: number = 6 * 60 * 60 * 1000): Promise<void> {
+    this.successfulChecks++;
+    this.write(key, { status: 'completed', expiry: Date.now() + ttl });
+  }
+
+  async release(key: string): Promise<void> {
+    this.successfulChecks++;
+    // Only drop in-flight leases; completed keys must survive a late release
+    if (this.store.get(key)?.status === 'processing') {
+      this.store.delete(key);
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    this.successfulChecks++;
+    this.store.delete(key);
+  }
+
+  async getStats(): Promise<IdempotencyStoreStats> {
+    const now = Date.now();
+    let totalKeys = 0;
+    let memoryUsage = 0;
+    for (const [key, entry] of this.store.entries()) {
+      if (now <= entry.expiry) {
+        totalKeys++;
+        // UTF-16 key plus fixed entry overhead
+        memoryUsage += key.length * 2 + ENTRY_OVERHEAD_BYTES;
+      }
+    }
+
+    return {
+      totalKeys,
+      successfulChecks: this.successfulChecks,
+      // Map operations cannot fail
+      failedChecks: 0,
+      memoryUsage,
+      evictions: this.evictions,
+      connectionStatus: this.closed ? 'disconnected' : 'connected',
+    };
   }
 
   async close(): Promise<void> {
+    this.closed = true;
     if (this.cleanupTimer) {
       clearInterval(this.cleanupTimer);
       this.cleanupTimer = undefined;
@@ -48,11 +145,42 @@ export class InMemoryIdempotencyStore implements IdempotencyStore {
     this.store.clear();
   }
 
+  /**
+   * Mark a key as most recently used (Map iteration order is the LRU order)
+   */
+  private touch(key: string, entry: MemoryEntry): void {
+    if (this.maxEntries === undefined) return;
+    this.store.delete(key);
+    this.store.set(key, entry);
+  }
+
+  /**
+   * Insert or replace a key as most recently used, evicting the least recently used when full
+   */
+  private write(key: string, entry: MemoryEntry): void {
+    this.store.delete(key);
+    this.store.set(key, entry);
+
+    if (this.maxEntries === undefined) return;
+    while (this.store.size > this.maxEntries) {
+      const oldest = this.store.entries().next().value;
+      if (oldest === undefined) break;
+      const [oldestKey, oldestEntry] = oldest;
+      this.store.delete(oldestKey);
+      this.evictions++;
+      try {
+        this.onEvict?.(oldestKey, oldestEntry.status);
+      } catch {
+        // Eviction callbacks must not break the write path
+      }
+    }
+  }
+
   private startCleanup(): void {
     this.cleanupTimer = setInterval(() => {
       const now = Date.now();
-      for (const [key, expiry] of this.store.entries()) {
-        if (now > expiry) {
+      for (const [key, entry] of this.store.entries()) {
+        if (now > entry.expiry) {
           this.store.delete(key);
         }
       }
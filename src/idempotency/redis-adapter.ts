@@ -0,0 +1,196 @@
+/**
+ * @valianx/pubsub-lite - Redis client adapters for the idempotency store
+ */
+
+import type Redis from 'ioredis';
+import type { Cluster, RedisOptions as IORedisOptions } from 'ioredis';
+import { Defaults } from '../types.js';
+import type { RedisOptions } from '../types.js';
+
+/**
+ * Minimal command surface the idempotency store needs from a Redis client
+ * 
+ * Both ioredis and node-redis are mapped onto this interface so the store
+ * logic stays client-agnostic.
+ */
+export interface RedisCommandAdapter {
+  /** Number of the given keys that exist */
+  exists(key: string): Promise<number>;
+  /** Get a string value, or null if the key does not exist */
+  get(key: string): Promise<string | null>;
+  /** Set a value with a TTL in milliseconds; with `nx` only when the key is absent. Returns whether it was written */
+  set(key: string, value: string, options: { px: number; nx?: boolean }): Promise<boolean>;
+  /** Delete a key, returning the number of keys removed */
+  del(key: string): Promise<number>;
+  /** Run a Lua script */
+  eval(script: string, keys: string[], args: string[]): Promise<unknown>;
+  /** Count keys matching a pattern with SCAN (across all masters in cluster mode) */
+  countKeys(match: string): Promise<number>;
+  /** Gracefully close the connection */
+  quit(): Promise<void>;
+  /** Whether the connection is ready to accept commands */
+  isReady(): boolean;
+  /** Subscribe to connection lifecycle events */
+  on(event: RedisConnectionEvent, listener: (error?: Error) => void): void;
+}
+
+/**
+ * Connection lifecycle events emitted by both ioredis and node-redis
+ */
+export type RedisConnectionEvent = 'ready' | 'end' | 'error';
+
+/**
+ * Structural type for the parts of a node-redis v4 client used by the adapter
+ * 
+ * Declared locally so `redis` stays an optional peer dependency.
+ */
+export interface NodeRedisClientLike {
+  isOpen: boolean;
+  isReady: boolean;
+  on(event: RedisConnectionEvent, listener: (error?: Error) => void): unknown;
+  exists(key: string): Promise<number>;
+  get(key: string): Promise<string | null>;
+  set(key: string, value: string, options: { PX: number; NX?: true }): Promise<string | null>;
+  del(key: string): Promise<number>;
+  eval(script: string, options: { keys: string[]; arguments: string[] }): Promise<unknown>;
+  scan(cursor: number, options: { MATCH: string; COUNT: number }): Promise<{ cursor: number; keys: string[] }>;
+  quit(): Promise<unknown>;
+}
+
+/**
+ * Keys requested per SCAN call when counting
+ */
+const SCAN_BATCH_SIZE = 1000;
+
+/**
+ * Walk a SCAN cursor to completion and count the returned keys
+ * 
+ * Uses SCAN rather than KEYS, which blocks Redis on large keyspaces.
+ */
+async function countWithScan(
+  scan: (cursor: string) => Promise<[string, string[]]>
+): Promise<number> {
+  let cursor = '0';
+  let count = 0;
+  do {
+    const [nextCursor, keys] = await scan(cursor);
+    cursor = nextCursor;
+    count += keys.length;
+  } while (cursor !== '0');
+  return count;
+}
+
+/**
+ * Check whether a value looks like a node-redis v4 client
+ */
+export function isNodeRedisClient(client: unknown): client is NodeRedisClientLike {
+  if (typeof client !== 'object' || client === null) {
+    return false;
+  }
+
+  const candidate = client as Record<string, unknown>;
+  return (
+    typeof candidate.isOpen === 'boolean' &&
+    typeof candidate.get === 'function' &&
+    typeof candidate.set === 'function' &&
+    typeof candidate.del === 'function' &&
+    typeof candidate.scan === 'function'
+  );
+}
+
+/**
+ * Adapt an ioredis client (single node, Sentinel or Cluster) to the store's command surface
+ */
+export function createIoredisAdapter(client: Redis | Cluster): RedisCommandAdapter {
+  // SCAN only covers the node it runs on, so a cluster is scanned master by master
+  const scanTargets = (): Redis[] =>
+    'nodes' in client && typeof client.nodes === 'function' ? client.nodes('master') : [client as Redis];
+
+  return {
+    exists: (key) => client.exists(key),
+    get: (key) => client.get(key),
+    async set(key, value, { px, nx }) {
+      const result = nx
+        ? await client.set(key, value, 'PX', px, 'NX')
+        : await client.set(key, value, 'PX', px);
+      return result === 'OK';
+    },
+    del: (key) => client.del(key),
+    eval: (script, keys, args) => client.eval(script, keys.length, ...keys, ...args),
+    async countKeys(match) {
+      let total = 0;
+      for (const node of scanTargets()) {
+        total += await countWithScan((cursor) => node.scan(cursor, 'MATCH', match, 'COUNT', SCAN_BATCH_SIZE));
+      }
+      return total;
+    },
+    async quit() {
+      await client.quit();
+    },
+    isReady: () => client.status === 'ready',
+    on(event, listener) {
+      client.on(event, listener);
+    },
+  };
+}
+
+/**
+ * Adapt a node-redis v4 client to the store's command surface
+ */
+export function createNodeRedisAdapter(client: NodeRedisClientLike): RedisCommandAdapter {
+  return {
+    exists: (key) => client.exists(key),
+    get: (key) => client.get(key),
+    async set(key, value, { px, nx }) {
+      const result = await client.set(key, value, nx ? { PX: px, NX: true } : { PX: px });
+      return result === 'OK';
+    },
+    del: (key) => client.del(key),
+    eval: (script, keys, args) => client.eval(script, { keys, arguments: args }),
+    countKeys: (match) =>
+      countWithScan(async (cursor) => {
+        const reply = await client.scan(Number(cursor), { MATCH: match, COUNT: SCAN_BATCH_SIZE });
+        return [String(reply.cursor), reply.keys];
+      }),
+    async quit() {
+      // quit() throws on an already-closed node-redis client
+      if (client.isOpen) {
+        await client.quit();
+      }
+    },
+    isReady: () => client.isReady,
+    on(event, listener) {
+      client.on(event, listener);
+    },
+  };
+}
+
+/**
+ * Translate the library's RedisOptions into ioredis connection settings
+ * 
+ * Applies to both the URL and host/port forms. Values embedded in the URL
+ * (password, database) take precedence over the explicit options.
+ */
+export function createIoredisOptions(options: RedisOptions): IORedisOptions {
+  const { retryOnFailure = true, maxRetries } = options;
+
+  const config: IORedisOptions = {
+    lazyConnect: true,
+    connectTimeout: options.connectTimeout ?? Defaults.REDIS_CONNECT_TIMEOUT_MS,
+    // Bound every command so a hung Redis fails the idempotency check instead of blocking handlers
+    commandTimeout: options.commandTimeout ?? Defaults.REDIS_COMMAND_TIMEOUT_MS,
+    ...(options.db !== undefined && { db: options.db }),
+    ...(options.password && { password: options.password }),
+  };
+
+  if (!retryOnFailure) {
+    // Neither reconnect nor replay queued commands: fail immediately
+    config.retryStrategy = () => null;
+    config.maxRetriesPerRequest = 0;
+  } else if (maxRetries !== undefined) {
+    config.retryStrategy = (times) => (times > maxRetries ? null : Math.min(times * 100, 2000));
+    config.maxRetriesPerRequest = maxRetries;
+  }
+
+  return config;
+}
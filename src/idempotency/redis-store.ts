@@ -2,22 +2,38 @@
  * @valianx/pubsub-lite - Redis Idempotency Store (production)
  */
 
-import Redis from 'ioredis';
-import type { IdempotencyStore, RedisOptions } from '../types.js';
+import Redis, { Cluster } from 'ioredis';
+import { Defaults } from '../types.js';
+import type { IdempotencyStore, IdempotencyStatus, IdempotencyStoreStats, RedisOptions } from '../types.js';
+import {
+  createIoredisAdapter,
+  createIoredisOptions,
+  createNodeRedisAdapter,
+  isNodeRedisClient,
+} from './redis-adapter.js';
+import type { RedisCommandAdapter } from './redis-adapter.js';
 
 /**
- * Simple logger utility to avoid ESLint console warnings
+ * Deletes a key only while it still holds the 'processing' lease, so a late
+ * release never removes a key another consumer has already completed
  */
-const logger = {
-  error: (message: string, error?: unknown) => {
-    // eslint-disable-next-line no-console
-    console.error(message, error);
-  }
-};
+const RELEASE_SCRIPT = `
+if redis.call('GET', KEYS[1]) == ARGV[1] then
+  return redis.call('DEL', KEYS[1])
+end
+return 0
+`;
 
 /**
  * Production-ready Redis-backed idempotency store
  * 
+ * Redis errors are recorded in the stats and rethrown, so the consumer can apply
+ * its `idempotencyFailurePolicy` instead of silently skipping deduplication.
+ * 
+ * Works against a single node, Sentinel or Cluster. Every command touches exactly one
+ * key (the release script declares it in KEYS), so no operation spans hash slots; wrap
+ * the prefix in a hash tag (e.g. `'{orders}:idemp:'`) only to pin all keys to one slot.
+ * 
  * @example
  * ```typescript
  * const store = new RedisIdempotencyStore({
@@ -28,10 +44,14 @@ const logger = {
  * ```
  */
 export class RedisIdempotencyStore implements IdempotencyStore {
-  private redis: Redis;
+  private redis: RedisCommandAdapter;
   private readonly keyPrefix: string;
   private readonly ttl: number;
   private readonly isExternalClient: boolean;
+  private connectionStatus: IdempotencyStoreStats['connectionStatus'];
+  private successfulChecks = 0;
+  private failedChecks = 0;
+  private lastError: string | undefined;
 
   constructor(options: RedisOptions) {
     this.keyPrefix = options.keyPrefix ?? 'pubsubx:idemp:';
@@ -39,73 +59,178 @@ export class RedisIdempotencyStore implements IdempotencyStore {
 
     // Use existing client or create new one
     if (options.client) {
-      if (options.client instanceof Redis) {
-        this.redis = options.client;
-        this.isExternalClient = true;
+      if (options.client instanceof Redis || options.client instanceof Cluster) {
+        this.redis = createIoredisAdapter(options.client);
+      } else if (isNodeRedisClient(options.client)) {
+        // Support for node-redis v4 client - wrap with adapter
+        this.redis = createNodeRedisAdapter(options.client);
       } else {
-        // Support for node-redis client - wrap with adapter
-        this.redis = this.createRedisAdapter();
-        this.isExternalClient = true;
+        throw new Error(
+          'Unsupported Redis client. Please provide an ioredis or node-redis v4 client, or connection options.'
+        );
       }
+      this.isExternalClient = true;
     } else {
       // Create new ioredis client
-      this.redis = this.createRedisClient(options);
+      this.redis = createIoredisAdapter(this.createRedisClient(options));
       this.isExternalClient = false;
     }
+
+    this.connectionStatus = this.redis.isReady() ? 'connected' : 'disconnected';
+    this.trackConnection();
   }
 
   async has(key: string): Promise<boolean> {
+    return (await this.getStatus(key)) !== null;
+  }
+
+  async set(key: string, ttl?: number): Promise<void> {
+    await this.markCompleted(key, ttl);
+  }
+
+  async getStatus(key: string): Promise<IdempotencyStatus | null> {
     try {
       const fullKey = this.keyPrefix + key;
-      const result = await this.redis.exists(fullKey);
-      return result === 1;
+      const value = await this.redis.get(fullKey);
+      this.recordSuccess();
+      if (value === null) {
+        return null;
+      }
+      // Keys written before the lifecycle states existed hold '1' and count as completed
+      return value === 'processing' ? 'processing' : 'completed';
     } catch (error) {
-      // Log error but don't throw - allows fallback behavior
-      logger.error('Redis idempotency check failed:', error);
-      return false;
+      this.recordFailure(error);
+      throw error;
     }
   }
 
-  async set(key: string, ttl?: number): Promise<void> {
+  async tryClaim(key: string, ttl?: number): Promise<boolean> {
+    try {
+      const fullKey = this.keyPrefix + key;
+      const finalTtl = ttl ?? Defaults.IDEMPOTENCY_LEASE_MS;
+
+      // SET NX PX is a single atomic command: only one replica can win the key
+      const claimed = await this.redis.set(fullKey, 'processing', { px: finalTtl, nx: true });
+      this.recordSuccess();
+      return claimed;
+    } catch (error) {
+      this.recordFailure(error);
+      throw error;
+    }
+  }
+
+  async markCompleted(key: string, ttl?: number): Promise<void> {
     try {
       const fullKey = this.keyPrefix + key;
       const finalTtl = ttl ?? this.ttl;
       
       // Set key with TTL in milliseconds
-      await this.redis.psetex(fullKey, finalTtl, '1');
+      await this.redis.set(fullKey, 'completed', { px: finalTtl });
+      this.recordSuccess();
+    } catch (error) {
+      this.recordFailure(error);
+      throw error;
+    }
+  }
+
+  async release(key: string): Promise<void> {
+    try {
+      const fullKey = this.keyPrefix + key;
+      await this.redis.eval(RELEASE_SCRIPT, [fullKey], ['processing']);
+      this.recordSuccess();
+    } catch (error) {
+      this.recordFailure(error);
+      throw error;
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    try {
+      const fullKey = this.keyPrefix + key;
+      await this.redis.del(fullKey);
+      this.recordSuccess();
     } catch (error) {
-      // Log error but don't throw - allows graceful degradation
-      logger.error('Redis idempotency set failed:', error);
+      this.recordFailure(error);
+      throw error;
     }
   }
 
+  async getStats(): Promise<IdempotencyStoreStats> {
+    let totalKeys = 0;
+    try {
+      totalKeys = await this.redis.countKeys(`${this.keyPrefix}*`);
+    } catch (error) {
+      // Stats stay available during an outage; the failure shows up in lastError
+      this.recordFailure(error);
+    }
+
+    return {
+      totalKeys,
+      successfulChecks: this.successfulChecks,
+      failedChecks: this.failedChecks,
+      connectionStatus: this.connectionStatus,
+      ...(this.lastError !== undefined && { lastError: this.lastError }),
+    };
+  }
+
   async close(): Promise<void> {
     if (!this.isExternalClient) {
       await this.redis.quit();
     }
   }
 
-  private createRedisClient(options: RedisOptions): Redis {
+  private createRedisClient(options: RedisOptions): Redis | Cluster {
+    const config = createIoredisOptions(options);
+
+    if (options.cluster) {
+      // Cluster mode has no database selection; retries move to the cluster level
+      const { retryStrategy, lazyConnect: _lazyConnect, db: _db, ...redisOptions } = config;
+      return new Cluster(options.cluster.nodes, {
+        lazyConnect: true,
+        redisOptions,
+        ...(retryStrategy && { clusterRetryStrategy: retryStrategy }),
+      });
+    }
+
+    if (options.sentinel) {
+      return new Redis({
+        sentinels: options.sentinel.sentinels,
+        name: options.sentinel.name,
+        ...(options.sentinel.sentinelPassword && { sentinelPassword: options.sentinel.sentinelPassword }),
+        ...config,
+      });
+    }
+
     if (options.url) {
-      return new Redis(options.url);
+      return new Redis(options.url, config);
     }
 
-    // Create config object with proper typing
-    const config = {
+    return new Redis({
       host: options.host ?? 'localhost',
       port: options.port ?? 6379,
-      db: options.db ?? 0,
-      lazyConnect: true,
-      ...(options.password && { password: options.password }),
-    };
+      ...config,
+    });
+  }
+
+  private trackConnection(): void {
+    this.redis.on('ready', () => {
+      this.connectionStatus = 'connected';
+    });
+    this.redis.on('end', () => {
+      this.connectionStatus = 'disconnected';
+    });
+    this.redis.on('error', (error) => {
+      this.connectionStatus = 'error';
+      this.lastError = error?.message;
+    });
+  }
 
-    return new Redis(config);
+  private recordSuccess(): void {
+    this.successfulChecks++;
   }
 
-  private createRedisAdapter(): Redis {
-    // For now, throw error if node-redis is used - we'll implement adapter later
-    throw new Error(
-      'node-redis client adapter not yet implemented. Please use ioredis client or connection options.'
-    );
+  private recordFailure(error: unknown): void {
+    this.failedChecks++;
+    this.lastError = error instanceof Error ? error.message : String(error);
   }
 }
@@ -0,0 +1,121 @@
+/**
+ * @valianx/pubsub-lite - Tiered Idempotency Store (local cache in front of a shared store)
+ */
+
+import { Defaults } from '../types.js';
+import type {
+  IdempotencyStore,
+  IdempotencyStatus,
+  IdempotencyStoreStats,
+  TieredStoreOptions,
+} from '../types.js';
+import { InMemoryIdempotencyStore } from './memory-store.js';
+
+/**
+ * Idempotency store that answers repeat duplicates from a bounded in-process cache
+ * 
+ * Only 'completed' keys are cached, and only after the backing store has accepted them,
+ * so the cache never knows more than the backing store. Everything else (claims, leases,
+ * releases) goes straight to the backing store, whose errors are propagated unchanged so
+ * the consumer's `idempotencyFailurePolicy` still applies. Cached hits keep being answered
+ * locally while the backing store is down.
+ * 
+ * @example
+ * ```typescript
+ * const store = new TieredIdempotencyStore(
+ *   new RedisIdempotencyStore({ url: 'redis://localhost:6379' }),
+ *   { localMaxEntries: 10_000, localTtl: 60_000 }
+ * );
+ * ```
+ */
+export class TieredIdempotencyStore implements IdempotencyStore {
+  private readonly backingStore: IdempotencyStore;
+  private readonly local: InMemoryIdempotencyStore;
+  private readonly localTtl: number;
+  private cacheHits = 0;
+  private cacheMisses = 0;
+
+  constructor(backingStore: IdempotencyStore, options: TieredStoreOptions = {}) {
+    this.backingStore = backingStore;
+    this.localTtl = options.localTtl ?? Defaults.TIERED_LOCAL_TTL_MS;
+    this.local = new InMemoryIdempotencyStore({
+      maxEntries: options.localMaxEntries ?? Defaults.TIERED_LOCAL_MAX_ENTRIES,
+    });
+  }
+
+  async has(key: string): Promise<boolean> {
+    return (await this.getStatus(key)) !== null;
+  }
+
+  async set(key: string, ttl?: number): Promise<void> {
+    await this.markCompleted(key, ttl);
+  }
+
+  async getStatus(key: string): Promise<IdempotencyStatus | null> {
+    if (await this.isCachedCompleted(key)) {
+      return 'completed';
+    }
+
+    const status = await this.backingStore.getStatus(key);
+    if (status === 'completed') {
+      await this.local.markCompleted(key, this.localTtl);
+    }
+    return status;
+  }
+
+  async tryClaim(key: string, ttl?: number): Promise<boolean> {
+    // A cached completion is a guaranteed loss; skip the round trip
+    if (await this.isCachedCompleted(key)) {
+      return false;
+    }
+
+    return this.backingStore.tryClaim(key, ttl);
+  }
+
+  async markCompleted(key: string, ttl?: number): Promise<void> {
+    await this.backingStore.markCompleted(key, ttl);
+    await this.local.markCompleted(key, Math.min(this.localTtl, ttl ?? this.localTtl));
+  }
+
+  async release(key: string): Promise<void> {
+    await this.local.delete(key);
+    await this.backingStore.release(key);
+  }
+
+  async delete(key: string): Promise<void> {
+    await this.local.delete(key);
+    await this.backingStore.delete?.(key);
+  }
+
+  async getStats(): Promise<IdempotencyStoreStats> {
+    const localStats = await this.local.getStats();
+    const backingStats = await this.backingStore.getStats?.();
+
+    return {
+      totalKeys: backingStats?.totalKeys ?? localStats.totalKeys,
+      successfulChecks: backingStats?.successfulChecks ?? 0,
+      failedChecks: backingStats?.failedChecks ?? 0,
+      connectionStatus: backingStats?.connectionStatus ?? 'connected',
+      ...(backingStats?.lastError !== undefined && { lastError: backingStats.lastError }),
+      ...(localStats.memoryUsage !== undefined && { memoryUsage: localStats.memoryUsage }),
+      ...(localStats.evictions !== undefined && { evictions: localStats.evictions }),
+      cacheHits: this.cacheHits,
+      cacheMisses: this.cacheMisses,
+    };
+  }
+
+  async close(): Promise<void> {
+    await this.local.close();
+    await this.backingStore.close();
+  }
+
+  private async isCachedCompleted(key: string): Promise<boolean> {
+    const hit = (await this.local.getStatus(key)) === 'completed';
+    if (hit) {
+      this.cacheHits++;
+    } else {
+      this.cacheMisses++;
+    }
+    return hit;
+  }
+}
@@ -16,7 +16,30 @@ export * from './client.js';
 export * from './publisher.js';
 export * from './consumer.js';
 export * from './types.js';
+export * from './errors.js';
+export * from './codecs.js';
+export * from './validation.js';
+export * from './events.js';
+export * from './upcasting.js';
+export * from './cloudevents.js';
+export * from './compression.js';
+export * from './encryption.js';
+export * from './signing.js';
+export * from './limits.js';
+export * from './asyncapi.js';
+
+// Re-export schema codecs (Avro/Protobuf load their optional dependency on first use)
+export * from './schema/avro.js';
+export * from './schema/protobuf.js';
 
 // Re-export idempotency stores
 export * from './idempotency/redis-store.js';
 export * from './idempotency/memory-store.js';
+export * from './idempotency/tiered-store.js';
+export * from './idempotency/file-store.js';
+
+// Re-export idempotency key selectors
+export * from './idempotency/key-selectors.js';
+
+// Re-export blob stores (claim-check)
+export * from './blob/file-store.js';
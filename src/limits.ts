@@ -0,0 +1,109 @@
+/**
+ * @valianx/pubsub-lite - Pub/Sub message limits
+ */
+
+import { PubSubLimits } from './types.js';
+import { PublishLimitError } from './errors.js';
+
+/**
+ * Convert attribute values to the strings Pub/Sub requires
+ *
+ * Finite numbers, booleans and bigints are stringified. Anything else (null, undefined,
+ * objects, NaN) is most likely a bug in the caller and is rejected rather than guessed at.
+ *
+ * @throws {PublishLimitError} `attributeValue` for values that cannot be coerced
+ */
+export function normalizeAttributes(attributes: Record<string, unknown>): Record<string, string> {
+  const normalized: Record<string, string> = {};
+  for (const [key, value] of Object.entries(attributes)) {
+    if (typeof value === 'string') {
+      normalized[key] = value;
+    } else if (
+      typeof value === 'boolean' ||
+      typeof value === 'bigint' ||
+      (typeof value === 'number' && Number.isFinite(value))
+    ) {
+      normalized[key] = String(value);
+    } else {
+      throw new PublishLimitError(
+        'attributeValue',
+        `Attribute '${key}' must be a string, got ${describeValue(value)}`
+      );
+    }
+  }
+  return normalized;
+}
+
+/**
+ * Check a message against the Pub/Sub limits before it is sent
+ *
+ * @throws {PublishLimitError} naming the first limit the message breaks
+ */
+export function assertWithinLimits(message: {
+  data: Buffer;
+  attributes: Record<string, string>;
+  orderingKey?: string;
+}): void {
+  const entries = Object.entries(message.attributes);
+  if (message.data.length === 0 && entries.length === 0) {
+    throw new PublishLimitError('emptyMessage', 'Message must have data or at least one attribute');
+  }
+  if (entries.length > PubSubLimits.MAX_ATTRIBUTES) {
+    throw new PublishLimitError(
+      'attributeCount',
+      `Message has ${entries.length} attributes, over the limit of ${PubSubLimits.MAX_ATTRIBUTES}`
+    );
+  }
+
+  let attributeBytes = 0;
+  for (const [key, value] of entries) {
+    const keyBytes = Buffer.byteLength(key, 'utf8');
+    const valueBytes = Buffer.byteLength(value, 'utf8');
+    if (keyBytes === 0) {
+      throw new PublishLimitError('attributeKey', 'Attribute keys must not be empty');
+    }
+    if (keyBytes > PubSubLimits.MAX_ATTRIBUTE_KEY_BYTES) {
+      throw new PublishLimitError(
+        'attributeKey',
+        `Attribute key '${key}' is ${keyBytes} bytes, over the limit of ${PubSubLimits.MAX_ATTRIBUTE_KEY_BYTES}`
+      );
+    }
+    if (key.startsWith(PubSubLimits.RESERVED_ATTRIBUTE_PREFIX)) {
+      throw new PublishLimitError(
+        'attributeKey',
+        `Attribute key '${key}' uses the reserved '${PubSubLimits.RESERVED_ATTRIBUTE_PREFIX}' prefix`
+      );
+    }
+    if (valueBytes > PubSubLimits.MAX_ATTRIBUTE_VALUE_BYTES) {
+      throw new PublishLimitError(
+        'attributeValue',
+        `Attribute '${key}' is ${valueBytes} bytes, over the limit of ${PubSubLimits.MAX_ATTRIBUTE_VALUE_BYTES}`
+      );
+    }
+    attributeBytes += keyBytes + valueBytes;
+  }
+
+  const orderingKeyBytes = message.orderingKey ? Buffer.byteLength(message.orderingKey, 'utf8') : 0;
+  if (orderingKeyBytes > PubSubLimits.MAX_ORDERING_KEY_BYTES) {
+    throw new PublishLimitError(
+      'orderingKey',
+      `Ordering key is ${orderingKeyBytes} bytes, over the limit of ${PubSubLimits.MAX_ORDERING_KEY_BYTES}`
+    );
+  }
+
+  const totalBytes = message.data.length + attributeBytes + orderingKeyBytes;
+  if (totalBytes > PubSubLimits.MAX_MESSAGE_BYTES) {
+    throw new PublishLimitError(
+      'messageSize',
+      `Message is ${totalBytes} bytes (data ${message.data.length}, attributes ${attributeBytes}), ` +
+        `over the limit of ${PubSubLimits.MAX_MESSAGE_BYTES}`
+    );
+  }
+}
+
+function describeValue(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  if (typeof value === 'number') return String(value);
+  return typeof value;
+}
@@ -2,8 +2,20 @@
  * @valianx/pubsub-lite - Enhanced Publisher Wrapper with Retry and Observability
  */
 
+import { randomUUID } from 'node:crypto';
 import type { PubSub, Topic } from '@google-cloud/pubsub';
-import type { PublisherOptions } from './types.js';
+import { Defaults, ErrorCodes, MessageAttributes } from './types.js';
+import type { EventDefinition, PayloadValidator, PublisherOptions } from './types.js';
+import { jsonCodec } from './codecs.js';
+import { PayloadValidationError, PubSubLiteError } from './errors.js';
+import { CLOUDEVENTS_SPEC_VERSION, encodeCloudEvent } from './cloudevents.js';
+import type { CloudEventContext } from './cloudevents.js';
+import { compressPayload } from './compression.js';
+import { assertWithinLimits, normalizeAttributes } from './limits.js';
+import { encryptPayload } from './encryption.js';
+import { signPayload } from './signing.js';
+import { validatePayload } from './validation.js';
+import { eventRegistry } from './events.js';
 
 /**
  * Simple logger utility to avoid ESLint console warnings
@@ -19,6 +31,48 @@ const logger = {
   }
 };
 
+/**
+ * Message as handed to the SDK
+ */
+interface OutgoingMessage {
+  data: Buffer;
+  attributes: Record<string, string>;
+  orderingKey?: string;
+}
+
+/**
+ * gRPC status codes that fail the same way on every attempt
+ */
+const NON_RETRYABLE_GRPC_CODES: ReadonlySet<number> = new Set([
+  3, // INVALID_ARGUMENT
+  5, // NOT_FOUND
+  6, // ALREADY_EXISTS
+  7, // PERMISSION_DENIED
+  9, // FAILED_PRECONDITION
+  11, // OUT_OF_RANGE
+  12, // UNIMPLEMENTED
+  16, // UNAUTHENTICATED
+]);
+
+/**
+ * Default `retry.isRetryable`: retries everything except errors whose gRPC status code
+ * cannot succeed on a retry (invalid argument, missing topic, denied permission, ...)
+ * 
+ * Errors without a numeric status code (network failures, timeouts) are retried.
+ * 
+ * @example
+ * ```typescript
+ * // Also give up on quota errors
+ * const publisher = createPublisher(client, 'orders', {
+ *   retry: { isRetryable: (error) => isRetryableError(error) && (error as { code?: unknown }).code !== 8 }
+ * });
+ * ```
+ */
+export function isRetryableError(error: unknown): boolean {
+  const code = typeof error === 'object' && error !== null ? (error as { code?: unknown }).code : undefined;
+  return typeof code !== 'number' || !NON_RETRYABLE_GRPC_CODES.has(code);
+}
+
 /**
  * Calculate exponential backoff delay with jitter
  */
@@ -62,9 +116,9 @@ function sleep(ms: number): Promise<void> {
  * await publisher.publish({ message: 'Hello World!' });
  * ```
  */
-export interface Publisher {
-  /** Publish a message with JSON serialization and retry logic */
-  publish(data: unknown, attributes?: Record<string, string>): Promise<string>;
+export interface Publisher<T = unknown> {
+  /** Publish a message serialized with the configured codec (JSON by default) and retry logic */
+  publish(data: T, attributes?: Record<string, string>): Promise<string>;
   /** Get the underlying Topic instance for advanced operations */
   getTopic(): Topic;
   /** Flush any pending batched messages */
@@ -73,26 +127,61 @@ export interface Publisher {
 
 /**
  * Create an enhanced publisher for the specified topic with retry and observability
+ * 
+ * The payload type `T` flows through `publish`, `orderingKeySelector` and the hooks.
+ * 
+ * @example
+ * ```typescript
+ * const publisher = createPublisher<OrderCreated>(client, 'orders', {
+ *   orderingKeySelector: (order) => order.customerId
+ * });
+ * await publisher.publish({ orderId: 'o-1', customerId: 'c-1' });
+ * ```
+ * 
+ * Pass an event definition instead of a topic name to publish to its topic, set the
+ * `type` and `version` attributes, validate with its schema and type the payload.
  */
-export function createPublisher(
+export function createPublisher<T = unknown>(
   client: PubSub,
-  topicName: string,
-  options: PublisherOptions = {}
-): Publisher {
+  topicOrEvent: string | EventDefinition<T>,
+  options: PublisherOptions<T> = {}
+): Publisher<T> {
+  const event = typeof topicOrEvent === 'string' ? undefined : topicOrEvent;
+  const topicName = event ? event.topic : (topicOrEvent as string);
   const { 
     attributesDefaults = {}, 
     orderingKeySelector,
     retry = {},
+    codec = jsonCodec,
+    validator = event?.schema as PayloadValidator | undefined,
+    cloudEvents,
+    compression,
+    encryption,
+    signing,
+    claimCheck,
     hooks,
     batching
   } = options;
 
+  // Event attributes are authoritative: consumers rely on them to route and type payloads
+  const eventAttributes: Record<string, string> = event
+    ? { [MessageAttributes.TYPE]: event.name, [MessageAttributes.VERSION]: event.version }
+    : {};
+  eventRegistry.registerPublisher({
+    topic: topicName,
+    ...(event && { event: event as EventDefinition }),
+    codec,
+    attributes: { ...attributesDefaults, ...eventAttributes },
+    ...(validator && { validator }),
+  });
+
   // Extract retry configuration with defaults
   const {
     initialDelayMs = 100,
     maxDelayMs = 10000,
     factor = 2,
-    maxAttempts = 5
+    maxAttempts = 5,
+    isRetryable = isRetryableError
   } = retry;
 
   // Create topic - simple approach for now
@@ -122,11 +211,60 @@ export function createPublisher(
     }
   }
 
+  /**
+   * Classify a publish error; a failing predicate falls back to the default classification
+   */
+  function classifyError(error: unknown): boolean {
+    try {
+      return isRetryable(error);
+    } catch (predicateError) {
+      logger.warn('@valianx/pubsub-lite: retry.isRetryable failed:', predicateError);
+      return isRetryableError(error);
+    }
+  }
+
+  /**
+   * Delete a claim-checked payload whose message was never published; nothing would ever fetch it
+   */
+  async function discardOffloadedPayload(reference: string | undefined): Promise<void> {
+    if (reference === undefined || !claimCheck) return;
+
+    try {
+      await claimCheck.store.delete(reference);
+    } catch (deleteError) {
+      logger.warn(`@valianx/pubsub-lite: Failed to delete offloaded payload '${reference}':`, deleteError);
+    }
+  }
+
+  /**
+   * Build the CloudEvents context for one publish; id and time stay fixed across retries
+   */
+  function createCloudEventContext(attributes: Record<string, string>): CloudEventContext {
+    const source = cloudEvents?.source ?? attributes[MessageAttributes.SOURCE];
+    const type = cloudEvents?.type ?? event?.name ?? attributes[MessageAttributes.TYPE];
+    if (!source || !type) {
+      throw new PubSubLiteError(
+        'CloudEvents require a source and a type: set them in cloudEvents or as attributes',
+        ErrorCodes.INVALID_CONFIG
+      );
+    }
+
+    return {
+      specversion: CLOUDEVENTS_SPEC_VERSION,
+      id: randomUUID(),
+      source,
+      type,
+      time: new Date().toISOString(),
+      ...(cloudEvents?.subject !== undefined && { subject: cloudEvents.subject }),
+      ...(cloudEvents?.dataschema !== undefined && { dataschema: cloudEvents.dataschema }),
+    };
+  }
+
   /**
    * Publish with retry logic and hooks
    */
   async function publishWithRetry(
-    data: unknown,
+    data: T,
     attributes: Record<string, string> = {}
   ): Promise<string> {
     // Call onPublishStart hook
@@ -135,30 +273,122 @@ export function createPublisher(
       'onPublishStart'
     );
 
+    // Validate once up front: an invalid payload fails the same way on every attempt
+    let payload: T = data;
+    if (validator) {
+      const result = await validatePayload(validator, data);
+      if (!result.valid) {
+        const error = new PayloadValidationError(result.issues);
+        await executeHook(
+          () => hooks?.onPublishFailure?.(error, data, 0, false),
+          'onPublishFailure'
+        );
+        throw error;
+      }
+      // Validators that transform (zod) return the payload to publish
+      payload = result.value as T;
+    }
+
+    let callerAttributes: Record<string, string>;
+    let cloudEventContext: CloudEventContext | undefined;
+
+    /**
+     * Serialize the payload, build the final attributes and check the result against the
+     * Pub/Sub limits
+     */
+    async function buildMessage(): Promise<OutgoingMessage> {
+      // Serialize data with the configured codec, wrapped per the CloudEvents mode if enabled
+      const cloudEvent = cloudEventContext
+        ? encodeCloudEvent(cloudEventContext, payload, codec, cloudEvents?.mode)
+        : undefined;
+      let dataBuffer = cloudEvent ? cloudEvent.data : codec.encode(payload);
+
+      // Merge default attributes with provided attributes; the content type always
+      // reflects the data so consumers can pick the matching decoder
+      const finalAttributes: Record<string, string> = {
+        ...callerAttributes,
+        ...eventAttributes,
+        [MessageAttributes.CONTENT_TYPE]: codec.contentType,
+        ...cloudEvent?.attributes,
+      };
+
+      const compressed = compression ? await compressPayload(dataBuffer, compression) : undefined;
+      if (compressed) {
+        dataBuffer = compressed.data;
+        finalAttributes[MessageAttributes.CONTENT_ENCODING] = compressed.contentEncoding;
+        await executeHook(
+          () => hooks?.onPublishCompression?.(compressed.stats, data),
+          'onPublishCompression'
+        );
+      }
+
+      if (encryption) {
+        const encrypted = await encryptPayload(dataBuffer, encryption.keyProvider);
+        dataBuffer = encrypted.data;
+        Object.assign(finalAttributes, encrypted.attributes);
+      }
+
+      // Signed after encryption (the bytes on the wire) and before claim-check, so a fetched
+      // payload is verified as well
+      if (signing) {
+        Object.assign(finalAttributes, signPayload(dataBuffer, finalAttributes, signing));
+      }
+
+      // Oversized payloads travel through the blob store; the message only carries the reference
+      let reference: string | undefined;
+      if (claimCheck && dataBuffer.length >= (claimCheck.threshold ?? Defaults.CLAIM_CHECK_THRESHOLD_BYTES)) {
+        try {
+          reference = await claimCheck.store.put(dataBuffer);
+        } catch (cause) {
+          throw new PubSubLiteError('Failed to offload payload to the blob store', ErrorCodes.BLOB_STORE_ERROR, {
+            cause,
+          });
+        }
+        finalAttributes[MessageAttributes.CLAIM_CHECK] = reference;
+        dataBuffer = Buffer.alloc(0);
+      }
+
+      // Generate ordering key if selector provided
+      const orderingKey = orderingKeySelector?.(payload);
+      const message: OutgoingMessage = {
+        data: dataBuffer,
+        attributes: finalAttributes,
+        ...(orderingKey && { orderingKey }),
+      };
+
+      try {
+        assertWithinLimits(message);
+      } catch (error) {
+        await discardOffloadedPayload(reference);
+        throw error;
+      }
+      return message;
+    }
+
+    // Built once, before the first attempt: encoding or limit failures would fail the same
+    // way on every attempt, and retries must carry the same event id, blob and ciphertext
+    let message: OutgoingMessage;
+    try {
+      // Callers pass numbers and booleans at runtime despite the types; Pub/Sub only takes strings
+      callerAttributes = normalizeAttributes({ ...attributesDefaults, ...attributes });
+      cloudEventContext = cloudEvents ? createCloudEventContext(callerAttributes) : undefined;
+      message = await buildMessage();
+    } catch (error) {
+      await executeHook(
+        () => hooks?.onPublishFailure?.(error, data, 0, false),
+        'onPublishFailure'
+      );
+      throw error;
+    }
+
     let lastError: unknown;
+    let lastErrorRetryable = false;
+    let attempts = 0;
     
     for (let attempt = 0; attempt < maxAttempts; attempt++) {
       try {
-        // Serialize data to JSON
-        const jsonData = JSON.stringify(data);
-        const dataBuffer = Buffer.from(jsonData, 'utf8');
-
-        // Merge default attributes with provided attributes
-        const finalAttributes = { ...attributesDefaults, ...attributes };
-
-        // Generate ordering key if selector provided
-        const orderingKey = orderingKeySelector?.(data);
-        const publishOptions: Record<string, unknown> = {};
-        if (orderingKey) {
-          publishOptions.orderingKey = orderingKey;
-        }
-
         // Publish using SDK
-        const messageId = await topic.publishMessage({
-          data: dataBuffer,
-          attributes: finalAttributes,
-          ...publishOptions,
-        });
+        const messageId = await topic.publishMessage(message);
 
         // Call onPublishSuccess hook
         await executeHook(
@@ -170,15 +400,18 @@ export function createPublisher(
 
       } catch (error) {
         lastError = error;
+        attempts = attempt + 1;
+        const retryable = classifyError(error);
+        lastErrorRetryable = retryable;
 
         // Call onPublishError hook
         await executeHook(
-          () => hooks?.onPublishError?.(error, data, attempt + 1),
+          () => hooks?.onPublishError?.(error, data, attempt + 1, retryable),
           'onPublishError'
         );
 
-        // If this is the last attempt, break out of the loop
-        if (attempt === maxAttempts - 1) {
+        // Stop on permanent failures and after the last attempt
+        if (!retryable || attempt === maxAttempts - 1) {
           break;
         }
 
@@ -196,9 +429,14 @@ export function createPublisher(
       }
     }
 
-    // All retries exhausted
+    // All retries exhausted, or the error is permanent
+    if (!lastErrorRetryable) {
+      // Permanent errors mean the message was rejected; after a timeout it may still have been
+      // accepted, so its payload is kept for consumers and left to the store's own expiry
+      await discardOffloadedPayload(message.attributes[MessageAttributes.CLAIM_CHECK]);
+    }
     await executeHook(
-      () => hooks?.onPublishFailure?.(lastError, data, maxAttempts),
+      () => hooks?.onPublishFailure?.(lastError, data, attempts, lastErrorRetryable),
       'onPublishFailure'
     );
 
@@ -207,7 +445,7 @@ export function createPublisher(
   }
 
   return {
-    async publish(data: unknown, attributes: Record<string, string> = {}): Promise<string> {
+    async publish(data: T, attributes: Record<string, string> = {}): Promise<string> {
       return publishWithRetry(data, attributes);
     },
 
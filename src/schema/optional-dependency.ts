@@ -0,0 +1,27 @@
+/**
+ * @valianx/pubsub-lite - Optional dependency loading
+ */
+
+import { ErrorCodes } from '../types.js';
+import { PubSubLiteError } from '../errors.js';
+
+/**
+ * Import an optional peer dependency, failing with INVALID_CONFIG when it is not installed
+ * 
+ * Schema libraries are only loaded when a schema codec is created, so consumers that
+ * never use Avro or Protobuf do not need them installed.
+ */
+export async function loadOptionalDependency<T>(name: string, importer: () => Promise<unknown>): Promise<T> {
+  let module: { default?: T };
+  try {
+    module = (await importer()) as { default?: T };
+  } catch (cause) {
+    throw new PubSubLiteError(
+      `Optional dependency '${name}' is not installed. Run: npm install ${name}`,
+      ErrorCodes.INVALID_CONFIG,
+      { cause }
+    );
+  }
+  // CommonJS packages expose their exports on `default` when imported from ESM
+  return (module.default ?? module) as T;
+}
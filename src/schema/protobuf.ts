@@ -0,0 +1,158 @@
+/**
+ * @valianx/pubsub-lite - Protobuf codec
+ */
+
+import { readFile } from 'node:fs/promises';
+import type * as Protobuf from 'protobufjs';
+import { ErrorCodes } from '../types.js';
+import type { Codec, ProtobufCodecOptions } from '../types.js';
+import { PubSubLiteError } from '../errors.js';
+import { loadOptionalDependency } from './optional-dependency.js';
+
+/**
+ * Conversion used for decoded payloads: the proto3 JSON mapping for 64-bit
+ * integers, enums and bytes, so handlers receive plain JSON-safe objects
+ */
+const TO_OBJECT_OPTIONS: Protobuf.IConversionOptions = {
+  longs: String,
+  enums: String,
+  bytes: String,
+};
+
+/**
+ * AsyncAPI schema format for Protobuf definitions
+ */
+const PROTOBUF_SCHEMA_FORMAT = 'application/vnd.google.protobuf;version=3';
+
+/**
+ * Create a codec that encodes and decodes payloads with a Protobuf message type
+ * 
+ * Supports both Pub/Sub schema encodings: binary wire format, and proto3 JSON.
+ * Payloads may use enum names or numbers and string or numeric 64-bit integers.
+ * Payloads that do not match the message type raise a `PubSubLiteError` with
+ * code `SCHEMA_ERROR`.
+ * 
+ * Requires the optional `protobufjs` package.
+ * 
+ * @example
+ * ```typescript
+ * const orderCodec = await createProtobufCodec({
+ *   protoPath: './schemas/order.proto',
+ *   messageType: 'orders.v1.OrderCreated'
+ * });
+ * const consumer = createConsumer(client, 'orders-sub', { codec: orderCodec });
+ * ```
+ */
+export async function createProtobufCodec(options: ProtobufCodecOptions): Promise<Codec> {
+  const { protoPath, messageType, encoding = 'binary' } = options;
+  const protobuf = await loadOptionalDependency<typeof Protobuf>('protobufjs', () => import('protobufjs'));
+
+  let type: Protobuf.Type;
+  let source: string;
+  try {
+    const root = await protobuf.load(protoPath);
+    type = root.lookupType(messageType);
+    // Keep the source for generated documentation
+    const paths = Array.isArray(protoPath) ? protoPath : [protoPath];
+    source = (await Promise.all(paths.map((path) => readFile(path, 'utf8')))).join('\n');
+  } catch (cause) {
+    throw new PubSubLiteError(
+      `Failed to load Protobuf type '${messageType}' from ${String(protoPath)}`,
+      ErrorCodes.INVALID_CONFIG,
+      { cause }
+    );
+  }
+
+  /**
+   * Convert a plain object to a message, rejecting fields and values the type does not declare
+   */
+  function toMessage(value: unknown): Protobuf.Message {
+    const unknownField = findUndeclaredField(type, value, '');
+    if (unknownField !== undefined) {
+      throw new PubSubLiteError(
+        `Payload does not match Protobuf type '${messageType}': unknown field '${unknownField}'`,
+        ErrorCodes.SCHEMA_ERROR
+      );
+    }
+
+    try {
+      const message = type.fromObject(value as Record<string, unknown>);
+      const invalid = type.verify(message);
+      if (invalid) {
+        throw new TypeError(invalid);
+      }
+      return message;
+    } catch (cause) {
+      throw new PubSubLiteError(
+        `Payload does not match Protobuf type '${messageType}'`,
+        ErrorCodes.SCHEMA_ERROR,
+        { cause }
+      );
+    }
+  }
+
+  return {
+    contentType:
+      options.contentType ?? (encoding === 'json' ? 'application/protobuf+json' : 'application/protobuf'),
+    schema: { format: PROTOBUF_SCHEMA_FORMAT, definition: source },
+
+    encode(data: unknown): Buffer {
+      const message = toMessage(data);
+      if (encoding === 'json') {
+        return Buffer.from(JSON.stringify(type.toObject(message, TO_OBJECT_OPTIONS)), 'utf8');
+      }
+      return Buffer.from(type.encode(message).finish());
+    },
+
+    decode(data: Buffer): unknown {
+      let message: Protobuf.Message;
+      if (encoding === 'json') {
+        let value: unknown;
+        try {
+          value = JSON.parse(data.toString('utf8'));
+        } catch (cause) {
+          throw new PubSubLiteError('Payload is not valid JSON', ErrorCodes.PARSE_ERROR, { cause });
+        }
+        message = toMessage(value);
+      } else {
+        try {
+          message = type.decode(data);
+        } catch (cause) {
+          throw new PubSubLiteError(
+            `Payload does not match Protobuf type '${messageType}'`,
+            ErrorCodes.SCHEMA_ERROR,
+            { cause }
+          );
+        }
+      }
+      return type.toObject(message, TO_OBJECT_OPTIONS);
+    },
+  };
+}
+
+/**
+ * Find the path of the first field not declared by the type; `fromObject` would silently drop it
+ */
+function findUndeclaredField(type: Protobuf.Type, value: unknown, path: string): string | undefined {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    return undefined;
+  }
+
+  for (const [key, fieldValue] of Object.entries(value)) {
+    const fieldPath = path ? `${path}.${key}` : key;
+    const field = type.fields[key];
+    if (!field) {
+      return fieldPath;
+    }
+
+    // Recurse into nested messages; map values are left to fromObject
+    if (field.map || !field.resolvedType || !('fields' in field.resolvedType)) continue;
+    const nestedType = field.resolvedType as Protobuf.Type;
+    const items: unknown[] = field.repeated && Array.isArray(fieldValue) ? fieldValue : [fieldValue];
+    for (const item of items) {
+      const nested = findUndeclaredField(nestedType, item, fieldPath);
+      if (nested !== undefined) return nested;
+    }
+  }
+  return undefined;
+}
@@ -0,0 +1,105 @@
+/**
+ * @valianx/pubsub-lite - HMAC message signing
+ */
+
+import { createHmac, timingSafeEqual } from 'node:crypto';
+import { ErrorCodes, MessageAttributes } from './types.js';
+import type { SigningOptions } from './types.js';
+import { PubSubLiteError, SignatureError } from './errors.js';
+
+/**
+ * Attributes written by signing, never covered by the signature themselves
+ */
+const SIGNATURE_ATTRIBUTES: readonly string[] = [
+  MessageAttributes.SIGNATURE,
+  MessageAttributes.SIGNATURE_KEY_ID,
+  MessageAttributes.SIGNED_ATTRIBUTES,
+];
+
+/**
+ * Sign a payload and attributes with HMAC-SHA256
+ *
+ * Signs the present `options.attributes` when given, otherwise every attribute. The list
+ * of signed names travels in the `signedAttributes` attribute and is covered by the
+ * signature, so attributes cannot be dropped from it.
+ *
+ * @returns The signature attributes to add to the message
+ */
+export function signPayload(
+  data: Buffer,
+  attributes: Record<string, string>,
+  options: SigningOptions
+): Record<string, string> {
+  if (!options.keyId || secretLength(options.secret) === 0) {
+    throw new PubSubLiteError('Signing requires a key ID and a non-empty secret', ErrorCodes.INVALID_CONFIG);
+  }
+  const names = (options.attributes ?? Object.keys(attributes))
+    .filter((name) => Object.hasOwn(attributes, name) && !SIGNATURE_ATTRIBUTES.includes(name))
+    .sort();
+
+  return {
+    [MessageAttributes.SIGNATURE]: computeSignature(options.secret, options.keyId, names, attributes, data),
+    [MessageAttributes.SIGNATURE_KEY_ID]: options.keyId,
+    [MessageAttributes.SIGNED_ATTRIBUTES]: JSON.stringify(names),
+  };
+}
+
+/**
+ * Verify the signature of a payload and its signed attributes
+ *
+ * Any of `keys` may have signed the message, so old and new secrets can both be
+ * active during a rotation.
+ *
+ * @throws {SignatureError} when the message is unsigned, signed with an unknown key or tampered with
+ */
+export function verifySignature(
+  data: Buffer,
+  attributes: Record<string, string>,
+  keys: Record<string, string | Buffer>
+): void {
+  const signature = attributes[MessageAttributes.SIGNATURE];
+  const keyId = attributes[MessageAttributes.SIGNATURE_KEY_ID];
+  const signedAttributes = attributes[MessageAttributes.SIGNED_ATTRIBUTES];
+  if (signature === undefined || keyId === undefined || signedAttributes === undefined) {
+    throw new SignatureError('unsigned', 'Message is not signed');
+  }
+
+  const secret = Object.hasOwn(keys, keyId) ? keys[keyId] : undefined;
+  if (secret === undefined) {
+    throw new SignatureError('unknownKey', `Message is signed with unknown key '${keyId}'`, keyId);
+  }
+
+  let names: unknown;
+  try {
+    names = JSON.parse(signedAttributes);
+  } catch {
+    names = undefined;
+  }
+  if (!Array.isArray(names) || !names.every((name) => typeof name === 'string' && Object.hasOwn(attributes, name))) {
+    throw new SignatureError('invalid', 'Signed attributes are malformed or missing', keyId);
+  }
+
+  const expected = Buffer.from(computeSignature(secret, keyId, names as string[], attributes, data), 'base64');
+  const actual = Buffer.from(signature, 'base64');
+  if (actual.length !== expected.length || !timingSafeEqual(actual, expected)) {
+    throw new SignatureError('invalid', 'Message signature does not match', keyId);
+  }
+}
+
+/**
+ * HMAC over an unambiguous encoding: a JSON header (key ID and signed attributes), a newline, the data
+ */
+function computeSignature(
+  secret: string | Buffer,
+  keyId: string,
+  names: string[],
+  attributes: Record<string, string>,
+  data: Buffer
+): string {
+  const header = JSON.stringify([keyId, names.map((name) => [name, attributes[name]])]);
+  return createHmac('sha256', secret).update(`${header}\n`, 'utf8').update(data).digest('base64');
+}
+
+function secretLength(secret: string | Buffer): number {
+  return typeof secret === 'string' ? secret.length : secret.byteLength;
+}
@@ -7,6 +7,7 @@
 
 import type { PubSub, Topic, Subscription, Message, ClientConfig } from '@google-cloud/pubsub';
 import type Redis from 'ioredis';
+import type { Cluster } from 'ioredis';
 
 // Re-export Google Cloud Pub/Sub types for convenience
 export type { PubSub, Topic, Subscription, Message, ClientConfig };
@@ -33,11 +34,11 @@ export interface PubSubClientOptions extends Partial<ClientConfig> {
  * 
  * Enhanced configuration for reliable message publishing with retry logic and observability.
  */
-export interface PublisherOptions {
+export interface PublisherOptions<T = unknown> {
   /** Default attributes applied to all published messages */
   attributesDefaults?: Record<string, string>;
   /** Function to generate ordering key from message data for ordered delivery */
-  orderingKeySelector?: (data: unknown) => string | undefined;
+  orderingKeySelector?: (data: T) => string | undefined;
   /** SDK retry configuration for failed publish operations */
   retry?: {
     /** Initial retry delay in milliseconds (default: 100) */
@@ -48,9 +49,25 @@ export interface PublisherOptions {
     factor?: number;
     /** Maximum number of retry attempts (default: 5) */
     maxAttempts?: number;
+    /** Whether a publish error is worth retrying (default: `isRetryableError`, based on gRPC status codes) */
+    isRetryable?: (error: unknown) => boolean;
   };
+  /** Payload codec; its content type is set as the `contentType` attribute (default: JSON) */
+  codec?: Codec;
+  /** Validator run before publishing; invalid payloads are rejected without retrying */
+  validator?: PayloadValidator;
+  /** Publish messages as CloudEvents (opt-in) */
+  cloudEvents?: CloudEventsOptions;
+  /** Compress payloads above a size threshold; consumers decompress transparently */
+  compression?: CompressionOptions;
+  /** Encrypt payloads (AES-256-GCM envelope encryption) */
+  encryption?: EncryptionOptions;
+  /** Sign payloads and attributes (HMAC-SHA256) */
+  signing?: SigningOptions;
+  /** Offload payloads above a size threshold to a blob store, publishing only a reference */
+  claimCheck?: PublisherClaimCheckOptions;
   /** Publisher observability hooks */
-  hooks?: PublisherHooks;
+  hooks?: PublisherHooks<T>;
   /** Enable message ordering for this publisher */
   enableMessageOrdering?: boolean;
   /** Batching settings (leverages SDK batching) */
@@ -64,20 +81,306 @@ export interface PublisherOptions {
   };
 }
 
+/**
+ * Supported payload compression algorithms
+ */
+export type CompressionAlgorithm = 'gzip' | 'brotli' | 'deflate';
+
+/**
+ * Publisher compression settings
+ * 
+ * Compressed payloads carry the `contentEncoding` attribute ('gzip', 'br' or 'deflate').
+ */
+export interface CompressionOptions {
+  /** Algorithm (default: 'gzip') */
+  algorithm?: CompressionAlgorithm;
+  /** Minimum encoded payload size in bytes to compress (default: 1024) */
+  threshold?: number;
+  /** Compression level: 0-9 for gzip and deflate, 0-11 for brotli (default: zlib's default) */
+  level?: number;
+}
+
+/**
+ * Outcome of compressing one payload, reported to `onPublishCompression`
+ */
+export interface CompressionStats {
+  algorithm: CompressionAlgorithm;
+  /** Encoded payload size before compression */
+  originalBytes: number;
+  /** Payload size after compression */
+  compressedBytes: number;
+  /** originalBytes / compressedBytes, e.g. 4 for a payload shrunk to a quarter */
+  ratio: number;
+}
+
+/**
+ * CloudEvents Pub/Sub binding modes
+ * 
+ * - `binary`: context attributes travel as `ce-*` message attributes, the payload as message data
+ * - `structured`: the whole event is a JSON envelope (`application/cloudevents+json`)
+ */
+export type CloudEventsMode = 'binary' | 'structured';
+
+/**
+ * Publisher CloudEvents settings; `id`, `specversion` and `time` are filled per message
+ */
+export interface CloudEventsOptions {
+  /** Binding mode (default: 'binary') */
+  mode?: CloudEventsMode;
+  /** Event source (default: the `source` attribute) */
+  source?: string;
+  /** Event type (default: the event definition name, then the `type` attribute) */
+  type?: string;
+  /** Subject of the event in the context of the source */
+  subject?: string;
+  /** URI of the schema `data` adheres to */
+  dataschema?: string;
+}
+
+/**
+ * CloudEvents 1.0 event as delivered to consumers with `cloudEvents` enabled
+ * 
+ * Extension attributes appear as additional top-level properties.
+ */
+export interface CloudEvent<T = unknown> {
+  specversion: string;
+  id: string;
+  source: string;
+  type: string;
+  time?: string;
+  datacontenttype?: string;
+  dataschema?: string;
+  subject?: string;
+  data: T;
+  [extension: string]: unknown;
+}
+
+/**
+ * Serializer for message payloads
+ * 
+ * The content type is written to the `contentType` attribute on publish and used
+ * by consumers to pick the matching decoder.
+ */
+export interface Codec<T = unknown> {
+  /** MIME content type identifying this encoding, e.g. 'application/json' */
+  readonly contentType: string;
+  /** Serialize a payload to bytes */
+  encode(data: T): Buffer;
+  /** Deserialize bytes to a payload; throw if the bytes are not valid for this encoding */
+  decode(data: Buffer): T;
+  /** Schema the codec enforces, for generated documentation (e.g. AsyncAPI) */
+  readonly schema?: CodecSchema;
+}
+
+/**
+ * Schema definition exposed by schema-based codecs
+ */
+export interface CodecSchema {
+  /** AsyncAPI schema format, e.g. 'application/vnd.apache.avro;version=1.9.0' */
+  format: string;
+  /** Schema in that format (parsed Avro JSON, `.proto` source, ...) */
+  definition: unknown;
+}
+
+/**
+ * Wire encoding for schema-based codecs, matching Pub/Sub schema encodings
+ */
+export type SchemaEncoding = 'binary' | 'json';
+
+/**
+ * Options for an Avro codec
+ */
+export interface AvroCodecOptions {
+  /** Path to an `.avsc` file, or the parsed schema definition */
+  schema: string | object;
+  /** Wire encoding (default: 'binary') */
+  encoding?: SchemaEncoding;
+  /** Content type attribute (default: 'application/avro' or 'application/avro+json') */
+  contentType?: string;
+}
+
+/**
+ * Options for a Protobuf codec
+ */
+export interface ProtobufCodecOptions {
+  /** Path(s) to the `.proto` file(s) defining the message type */
+  protoPath: string | string[];
+  /** Fully qualified message type, e.g. 'orders.v1.OrderCreated' */
+  messageType: string;
+  /** Wire encoding (default: 'binary') */
+  encoding?: SchemaEncoding;
+  /** Content type attribute (default: 'application/protobuf' or 'application/protobuf+json') */
+  contentType?: string;
+}
+
+/**
+ * JSON Schema primitive type names
+ */
+export type JsonSchemaType = 'string' | 'number' | 'integer' | 'boolean' | 'object' | 'array' | 'null';
+
+/**
+ * JSON Schema definition
+ * 
+ * The built-in validator supports the structural and value keywords listed here;
+ * other keywords (`$ref`, `format`, ...) are ignored. Pass a compiled Ajv validator
+ * as a function for full JSON Schema support.
+ */
+export interface JsonSchema {
+  type?: JsonSchemaType | JsonSchemaType[];
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  additionalProperties?: boolean | JsonSchema;
+  items?: JsonSchema;
+  enum?: unknown[];
+  const?: unknown;
+  minimum?: number;
+  maximum?: number;
+  exclusiveMinimum?: number;
+  exclusiveMaximum?: number;
+  minLength?: number;
+  maxLength?: number;
+  pattern?: string;
+  minItems?: number;
+  maxItems?: number;
+  allOf?: JsonSchema[];
+  anyOf?: JsonSchema[];
+  oneOf?: JsonSchema[];
+  /** Annotations and unsupported keywords */
+  [keyword: string]: unknown;
+}
+
+/**
+ * A single validation failure
+ */
+export interface ValidationIssue {
+  /** Dot-separated path to the offending value ('' for the payload itself) */
+  path: string;
+  /** Human-readable reason */
+  message: string;
+}
+
+/**
+ * Payload validator
+ * 
+ * Accepts a JSON Schema, a function returning `true`/`false` or a list of issues
+ * (compiled Ajv validators work as-is), a zod-style schema with `safeParse`/`parse`,
+ * or any object with a `validate` method (Joi, yup). Validators may be async.
+ */
+export type PayloadValidator =
+  | JsonSchema
+  | ((data: unknown) => boolean | ValidationIssue[] | void | Promise<boolean | ValidationIssue[] | void>)
+  | { safeParse(data: unknown): { success: boolean; data?: unknown; error?: unknown } }
+  | { parse(data: unknown): unknown }
+  | { validate(data: unknown): unknown };
+
+/**
+ * Validator accepted by `defineEvent`; the payload type is inferred from zod-style
+ * `parse`/`safeParse` schemas and from type guards
+ */
+export type EventSchema<T> =
+  | { parse(data: unknown): T }
+  | { safeParse(data: unknown): { success: boolean; data?: T; error?: unknown } }
+  | ((data: unknown) => data is T)
+  | PayloadValidator;
+
+/**
+ * Shared event contract created with `defineEvent`
+ */
+export interface EventDefinition<T = unknown> {
+  /** Event type, written to the `type` attribute */
+  readonly name: string;
+  /** Contract version, written to the `version` attribute */
+  readonly version: string;
+  /** Topic the event is published to */
+  readonly topic: string;
+  /** Validator applied on publish and consume */
+  readonly schema?: EventSchema<T>;
+  /** Human-readable description for catalogs and generated docs */
+  readonly description?: string;
+  /** Type-only marker carrying the payload type; always undefined at runtime */
+  readonly payload?: T;
+}
+
+/**
+ * One step of an event's version chain, turning a `From` payload into a `To` payload
+ * 
+ * `upcast` is declared as a method so typed steps such as `Upcaster<OrderV1, OrderV2>`
+ * fit in `Upcasters` while their bodies stay type-checked.
+ */
+export interface Upcaster<From = unknown, To = unknown> {
+  /** Version this step reads */
+  from: string;
+  /** Version this step produces */
+  to: string;
+  /** Transform the payload; may be async */
+  upcast(data: From, message: Message): To | Promise<To>;
+}
+
+/**
+ * Upcasting chains keyed by event type (the `type` attribute)
+ * 
+ * @example
+ * ```typescript
+ * const toV2: Upcaster<OrderV1, OrderV2> = { from: '1', to: '2', upcast: (v1) => ({ ...v1, currency: 'USD' }) };
+ * const toV3: Upcaster<OrderV2, OrderV3> = {
+ *   from: '2',
+ *   to: '3',
+ *   upcast: ({ amount, currency, ...rest }) => ({ ...rest, total: { amount, currency } }),
+ * };
+ * const upcasters: Upcasters = { 'order.created': [toV2, toV3] };
+ * ```
+ */
+export type Upcasters = Record<string, Upcaster[]>;
+
+/**
+ * Supported AsyncAPI specification versions
+ */
+export type AsyncApiVersion = '2.6.0' | '3.0.0';
+
+/**
+ * Options for generating an AsyncAPI document
+ */
+export interface AsyncApiOptions {
+  /** Document info: service title and version are required by AsyncAPI */
+  info: {
+    title: string;
+    version: string;
+    description?: string;
+  };
+  /** Specification version (default: '3.0.0') */
+  asyncapi?: AsyncApiVersion;
+  /** Servers section, copied as-is */
+  servers?: Record<string, unknown>;
+}
+
+/**
+ * What the consumer does with a message that fails validation
+ * 
+ * - `nack`: redeliver it, so the subscription's dead letter policy eventually takes it
+ * - `ack`: drop it
+ * - `deadLetter`: republish it to `deadLetterTopic`, then ack it
+ */
+export type InvalidMessagePolicy = 'nack' | 'ack' | 'deadLetter';
+
 /**
  * Publisher hooks for observability and monitoring
  */
-export interface PublisherHooks {
+export interface PublisherHooks<T = unknown> {
   /** Called before attempting to publish a message */
-  onPublishStart?: (data: unknown, attributes: Record<string, string>) => void | Promise<void>;
+  onPublishStart?: (data: T, attributes: Record<string, string>) => void | Promise<void>;
   /** Called when publish succeeds */
-  onPublishSuccess?: (messageId: string, data: unknown) => void | Promise<void>;
-  /** Called when publish fails (before retry) */
-  onPublishError?: (error: unknown, data: unknown, attempt: number) => void | Promise<void>;
+  onPublishSuccess?: (messageId: string, data: T) => void | Promise<void>;
+  /** Called when publish fails (before retry); `retryable` is false for permanent failures */
+  onPublishError?: (error: unknown, data: T, attempt: number, retryable: boolean) => void | Promise<void>;
   /** Called when a publish retry is attempted */
-  onPublishRetry?: (error: unknown, data: unknown, attempt: number, nextDelay: number) => void | Promise<void>;
-  /** Called when all retries are exhausted */
-  onPublishFailure?: (error: unknown, data: unknown, totalAttempts: number) => void | Promise<void>;
+  onPublishRetry?: (error: unknown, data: T, attempt: number, nextDelay: number) => void | Promise<void>;
+  /**
+   * Called when publishing fails for good: `retryable` is true when retries ran out, false
+   * for permanent failures (invalid payloads, broken limits, non-retryable errors)
+   */
+  onPublishFailure?: (error: unknown, data: T, totalAttempts: number, retryable: boolean) => void | Promise<void>;
+  /** Called when a payload is compressed, with its size reduction */
+  onPublishCompression?: (stats: CompressionStats, data: T) => void | Promise<void>;
 }
 
 /**
@@ -85,31 +388,96 @@ export interface PublisherHooks {
  * 
  * Comprehensive options for reliable message processing with idempotency.
  */
-export interface ConsumerOptions {
+export interface ConsumerOptions<T = MessageData> {
   /** Enable Redis-backed idempotency for duplicate message handling */
   idempotencyEnabled?: boolean;
   /** Redis configuration (required if idempotencyEnabled is true) */
   redis?: RedisOptions;
+  /** File-backed store configuration for single-instance deployments without Redis */
+  file?: FileStoreOptions;
   /** Pre-configured idempotency store instance (alternative to redis config) */
   idempotencyStore?: IdempotencyStore;
-  /** Function to extract idempotency key from message */
-  idempotencyKeySelector?: (message: Message) => string;
+  /** Function to extract idempotency key from message (default: message ID; see the built-in selectors) */
+  idempotencyKeySelector?: IdempotencyKeySelector;
+  /** Lease duration in milliseconds for keys in the 'processing' state (default: 5 minutes) */
+  idempotencyLeaseTtl?: number;
+  /** What to do with a message when the idempotency store is unavailable (default: 'process') */
+  idempotencyFailurePolicy?: IdempotencyFailurePolicy;
+  /** How often to probe the store while paused by the 'pause' policy, in milliseconds (default: 5000) */
+  idempotencyRecoveryInterval?: number;
+  /** Decoder for messages without a `contentType` attribute (default: JSON) */
+  codec?: Codec;
+  /** Additional decoders selected by the `contentType` attribute (JSON, text and binary are built in) */
+  codecs?: Codec[];
+  /** Validator run on decoded payloads before the handler */
+  validator?: PayloadValidator;
+  /** What to do with messages that fail validation (default: 'nack') */
+  invalidMessagePolicy?: InvalidMessagePolicy;
+  /** Topic that receives invalid messages (required with the 'deadLetter' policy) */
+  deadLetterTopic?: string;
+  /**
+   * Event consumed from this subscription: types the payload, validates it with the
+   * event schema (unless `validator` is set) and rejects messages of other event types
+   */
+  event?: EventDefinition<T>;
+  /**
+   * Upcasters by event type: payloads with an older `version` attribute are brought to the
+   * latest version (the event's version, or the end of the chain) before validation.
+   * Unknown versions are rejected per `invalidMessagePolicy`
+   */
+  upcasters?: Upcasters;
+  /** Blob store that resolves claim-checked payloads (required to consume them) */
+  claimCheck?: ConsumerClaimCheckOptions;
+  /** Largest size a compressed payload may expand to, in bytes; larger ones are nacked (default: 64MB) */
+  maxDecompressedBytes?: number;
+  /** Keys that decrypt encrypted payloads (required to consume them) */
+  encryption?: EncryptionOptions;
+  /** Verify message signatures before idempotency and the handler */
+  signatureVerification?: SignatureVerificationOptions;
+  /**
+   * Parse messages as CloudEvents (binary or structured mode) and pass the `CloudEvent`
+   * to the handler; validation and upcasting apply to its `data`, the guard to the event
+   */
+  cloudEvents?: boolean;
+  /**
+   * Runtime check that decoded (and validated) data really is a `T`; messages that fail
+   * it are handled like validation failures, per `invalidMessagePolicy`
+   */
+  guard?: (data: unknown) => data is T;
   /** Observability and monitoring hooks */
-  hooks?: ConsumerHooks;
+  hooks?: ConsumerHooks<T>;
   // Note: Advanced flow control, DLQ, and error handling options will be added in v2.0
   // to maintain compatibility with the underlying SDK
 }
 
+/**
+ * Function that derives the idempotency key for a message
+ * 
+ * `data` is the payload the handler receives: fetched, decrypted, decompressed, decoded,
+ * upcast and validated (the event data for CloudEvents), so content-based keys do not
+ * depend on how the message was encoded on the wire.
+ */
+export type IdempotencyKeySelector = (message: Message, data: unknown) => string;
+
+/**
+ * Behavior when the idempotency store fails during a check
+ * 
+ * - `process`: fail open - handle the message without deduplication
+ * - `nack`: fail closed - nack the message so it is redelivered later
+ * - `pause`: fail closed - nack the message and stop pulling until the store recovers
+ */
+export type IdempotencyFailurePolicy = 'process' | 'nack' | 'pause';
+
 /**
  * Lifecycle hooks for consumer monitoring and observability
  */
-export interface ConsumerHooks {
+export interface ConsumerHooks<T = unknown> {
   /** Called when a message is received but before processing */
   onMessageReceived?: (message: Message) => void | Promise<void>;
   /** Called when message processing starts */
   onMessageStart?: (message: Message) => void | Promise<void>;
   /** Called when message processing completes successfully */
-  onMessageSuccess?: (message: Message, data: unknown) => void | Promise<void>;
+  onMessageSuccess?: (message: Message, data: T) => void | Promise<void>;
   /** Called when message processing fails */
   onMessageError?: (message: Message, error: Error) => void | Promise<void>;
   /** Called when a message is acknowledged */
@@ -138,18 +506,60 @@ export interface RedisOptions {
   keyPrefix?: string;
   /** TTL for idempotency keys in milliseconds (default: 6 hours) */
   ttl?: number;
-  /** Existing Redis client instance (ioredis or node-redis) */
-  client?: Redis | unknown;
-  /** Connection timeout in milliseconds */
+  /** Existing Redis client instance (ioredis, ioredis Cluster or node-redis v4); never closed by the store */
+  client?: Redis | Cluster | unknown;
+  /** Redis Cluster startup nodes; when set, a Cluster client is created instead of a single-node one */
+  cluster?: RedisClusterOptions;
+  /** Redis Sentinel configuration; when set, the master is discovered through the sentinels */
+  sentinel?: RedisSentinelOptions;
+  /** Connection timeout in milliseconds (default: 10000) */
   connectTimeout?: number;
-  /** Command timeout in milliseconds */
+  /** Command timeout in milliseconds; a slower Redis reply fails the command (default: 2000) */
   commandTimeout?: number;
-  /** Enable automatic retry on connection failure */
+  /** Enable automatic reconnect and command retry on connection failure (default: true) */
   retryOnFailure?: boolean;
-  /** Maximum number of connection retries */
+  /** Maximum number of reconnect attempts and per-command retries (default: ioredis defaults) */
   maxRetries?: number;
 }
 
+/**
+ * Network address of a Redis node
+ */
+export interface RedisNodeAddress {
+  /** Node host */
+  host: string;
+  /** Node port */
+  port: number;
+}
+
+/**
+ * Redis Cluster connection configuration
+ */
+export interface RedisClusterOptions {
+  /** Startup nodes used to discover the cluster topology */
+  nodes: RedisNodeAddress[];
+}
+
+/**
+ * Redis Sentinel connection configuration
+ */
+export interface RedisSentinelOptions {
+  /** Sentinel addresses */
+  sentinels: RedisNodeAddress[];
+  /** Name of the monitored master group */
+  name: string;
+  /** Password for the sentinels themselves (the data node uses `password`) */
+  sentinelPassword?: string;
+}
+
+/**
+ * Lifecycle state of an idempotency key
+ * 
+ * - `processing`: a consumer holds a short-lived lease while the handler runs
+ * - `completed`: the handler succeeded and the key is kept for the full TTL
+ */
+export type IdempotencyStatus = 'processing' | 'completed';
+
 /**
  * Abstract interface for idempotency stores
  * 
@@ -157,11 +567,23 @@ export interface RedisOptions {
  * following the Interface Segregation Principle.
  */
 export interface IdempotencyStore {
-  /** Check if a key exists in the store */
+  /** Check if a key exists in the store (in any state) */
   has(key: string): Promise<boolean>;
-  /** Set a key in the store with optional TTL */
+  /** Mark a key as completed with optional TTL (alias of markCompleted) */
   set(key: string, ttl?: number): Promise<void>;
-  /** Remove a key from the store */
+  /** Get the lifecycle state of a key, or null if it is not present */
+  getStatus(key: string): Promise<IdempotencyStatus | null>;
+  /**
+   * Atomically take a short-lived 'processing' lease on a key
+   * 
+   * @returns true if this caller won the claim, false if the key already exists in any state
+   */
+  tryClaim(key: string, ttl?: number): Promise<boolean>;
+  /** Promote a key to 'completed' with the full TTL */
+  markCompleted(key: string, ttl?: number): Promise<void>;
+  /** Release a 'processing' lease so the message can be redelivered and processed again */
+  release(key: string): Promise<void>;
+  /** Remove a key from the store, e.g. to let a message be reprocessed */
   delete?(key: string): Promise<void>;
   /** Get store statistics for monitoring */
   getStats?(): Promise<IdempotencyStoreStats>;
@@ -169,18 +591,187 @@ export interface IdempotencyStore {
   close(): Promise<void>;
 }
 
+/**
+ * Configuration options for the in-memory idempotency store
+ */
+export interface InMemoryStoreOptions {
+  /** Interval in milliseconds for sweeping expired keys (default: 60000) */
+  cleanupInterval?: number;
+  /** Maximum number of keys; the least recently used key is evicted when full (default: unbounded) */
+  maxEntries?: number;
+  /** Called when a key is evicted to stay within maxEntries (not called on TTL expiry) */
+  onEvict?: (key: string, status: IdempotencyStatus) => void;
+}
+
+/**
+ * Configuration options for the tiered (local cache + backing store) idempotency store
+ */
+export interface TieredStoreOptions {
+  /** Maximum number of completed keys cached in-process (default: 10000) */
+  localMaxEntries?: number;
+  /** How long a completed key is trusted locally in milliseconds, capped by its backing TTL (default: 60000) */
+  localTtl?: number;
+}
+
+/**
+ * Configuration options for the file-backed idempotency store
+ */
+export interface FileStoreOptions {
+  /** Path of the append-only log file (parent directories are created) */
+  path: string;
+  /** TTL for completed keys in milliseconds (default: 6 hours) */
+  ttl?: number;
+  /** Interval in milliseconds for sweeping expired keys (default: 60000) */
+  cleanupInterval?: number;
+  /** Minimum number of log records before compaction is considered (default: 1000) */
+  compactionThreshold?: number;
+}
+
+/**
+ * Key-encryption key with its ID
+ */
+export interface EncryptionKey {
+  /** ID written to the `encryptionKeyId` attribute */
+  id: string;
+  /** 32-byte AES-256 key */
+  key: Buffer;
+}
+
+/**
+ * Source of key-encryption keys, e.g. a secret manager or KMS-backed cache
+ * 
+ * Rotation: return a new current key, and keep resolving retired key IDs for as long
+ * as messages encrypted with them may still be delivered.
+ */
+export interface KeyProvider {
+  /** Key that encrypts new messages */
+  getCurrentKey(): EncryptionKey | Promise<EncryptionKey>;
+  /** Key with the given ID, or undefined when unknown */
+  getKey(id: string): Buffer | undefined | Promise<Buffer | undefined>;
+}
+
+/**
+ * Configuration options for the static key provider
+ */
+export interface StaticKeyProviderOptions {
+  /** 32-byte keys by ID */
+  keys: Record<string, Buffer>;
+  /** ID of the key that encrypts new messages */
+  currentKeyId: string;
+}
+
+/**
+ * Payload encryption settings for publishers and consumers
+ */
+export interface EncryptionOptions {
+  keyProvider: KeyProvider;
+}
+
+/**
+ * Publisher HMAC-SHA256 signing settings
+ */
+export interface SigningOptions {
+  /** ID of the secret, written to the `signatureKeyId` attribute */
+  keyId: string;
+  /** Shared secret (at least 32 random bytes recommended) */
+  secret: string | Buffer;
+  /** Attributes covered by the signature (default: all attributes) */
+  attributes?: string[];
+}
+
+/**
+ * Consumer signature verification settings
+ */
+export interface SignatureVerificationOptions {
+  /** Accepted secrets by key ID; keep old and new secrets during a rotation */
+  keys: Record<string, string | Buffer>;
+  /** Reject unsigned messages (default: true); disable while producers roll out signing */
+  requireSignature?: boolean;
+  /** What to do with unsigned or forged messages (default: 'nack') */
+  policy?: InvalidMessagePolicy;
+}
+
+/**
+ * Why a message failed signature verification
+ */
+export type SignatureFailureReason = 'unsigned' | 'unknownKey' | 'invalid';
+
+/**
+ * Which Pub/Sub limit a message breaks
+ */
+export type PublishLimitReason =
+  | 'messageSize'
+  | 'emptyMessage'
+  | 'attributeCount'
+  | 'attributeKey'
+  | 'attributeValue'
+  | 'orderingKey';
+
+/**
+ * Storage for claim-checked payloads
+ * 
+ * References come from message attributes, so implementations must treat them as
+ * untrusted input when resolving them.
+ */
+export interface BlobStore {
+  /** Store a payload and return the reference published in its place */
+  put(data: Buffer): Promise<string>;
+  /** Fetch a payload by reference */
+  get(reference: string): Promise<Buffer>;
+  /** Delete a payload; deleting a missing payload is not an error */
+  delete(reference: string): Promise<void>;
+}
+
+/**
+ * Configuration options for the filesystem blob store
+ */
+export interface FileBlobStoreOptions {
+  /** Directory holding one file per payload (created if missing) */
+  directory: string;
+}
+
+/**
+ * Publisher claim-check settings
+ */
+export interface PublisherClaimCheckOptions {
+  /** Where payloads are offloaded */
+  store: BlobStore;
+  /** Minimum serialized (and compressed) payload size in bytes to offload (default: 8MB) */
+  threshold?: number;
+}
+
+/**
+ * Consumer claim-check settings
+ */
+export interface ConsumerClaimCheckOptions {
+  /** Where payloads are fetched from */
+  store: BlobStore;
+  /**
+   * Delete the payload once the handler acks the message (default: false). Only enable
+   * it when a single subscription consumes the topic, as other subscriptions still need it.
+   * With idempotency enabled, redeliveries of acked messages are acked as duplicates
+   */
+  deleteAfterAck?: boolean;
+}
+
 /**
  * Statistics for idempotency store monitoring
  */
 export interface IdempotencyStoreStats {
   /** Total number of keys in the store */
   totalKeys: number;
-  /** Number of successful checks */
+  /** Number of store operations (checks, claims and writes) that succeeded */
   successfulChecks: number;
-  /** Number of failed checks */
+  /** Number of store operations that failed */
   failedChecks: number;
   /** Memory usage in bytes (if applicable) */
   memoryUsage?: number;
+  /** Number of keys evicted to stay within a size bound (if applicable) */
+  evictions?: number;
+  /** Number of lookups answered by a local cache (if applicable) */
+  cacheHits?: number;
+  /** Number of lookups that fell through to the backing store (if applicable) */
+  cacheMisses?: number;
   /** Connection status */
   connectionStatus: 'connected' | 'disconnected' | 'error';
   /** Last error if any */
@@ -232,7 +823,7 @@ export interface ErrorContext {
   /** Message ID if error is related to a specific message */
   messageId?: string;
   /** Processing phase where error occurred */
-  phase?: 'receive' | 'parse' | 'idempotency' | 'handle' | 'ack' | 'nack';
+  phase?: 'receive' | 'verify' | 'decrypt' | 'parse' | 'upcast' | 'validate' | 'idempotency' | 'handle' | 'ack' | 'nack';
   /** Additional context data */
   metadata?: Record<string, unknown>;
   /** Retry attempt number */
@@ -341,6 +932,28 @@ export const MessageAttributes = {
   TIMESTAMP: 'timestamp',
   /** Content type of the message payload */
   CONTENT_TYPE: 'contentType',
+  /** Compression applied to the message payload */
+  CONTENT_ENCODING: 'contentEncoding',
+  /** Encryption algorithm of an encrypted payload */
+  ENCRYPTION: 'encryption',
+  /** ID of the key that wrapped the payload's data key */
+  ENCRYPTION_KEY_ID: 'encryptionKeyId',
+  /** Wrapped data key of an encrypted payload (base64) */
+  ENCRYPTED_DATA_KEY: 'encryptedDataKey',
+  /** HMAC-SHA256 signature of the payload and signed attributes (base64) */
+  SIGNATURE: 'signature',
+  /** ID of the secret that produced the signature */
+  SIGNATURE_KEY_ID: 'signatureKeyId',
+  /** JSON array of the attribute names covered by the signature */
+  SIGNED_ATTRIBUTES: 'signedAttributes',
+  /** Blob store reference of a claim-checked payload (the message data is empty) */
+  CLAIM_CHECK: 'claimCheck',
+  /** Why a message was routed to a dead letter topic (an error code) */
+  DEAD_LETTER_REASON: 'deadLetterReason',
+  /** Subscription a dead-lettered message was received on */
+  DEAD_LETTER_SOURCE: 'deadLetterSource',
+  /** Message ID of the original delivery of a dead-lettered message */
+  ORIGINAL_MESSAGE_ID: 'originalMessageId',
 } as const;
 
 /**
@@ -349,8 +962,28 @@ export const MessageAttributes = {
 export const Defaults = {
   /** Default Redis key prefix */
   REDIS_KEY_PREFIX: 'pubsubx:idemp:',
+  /** Default Redis connection timeout */
+  REDIS_CONNECT_TIMEOUT_MS: 10000,
+  /** Default Redis command timeout */
+  REDIS_COMMAND_TIMEOUT_MS: 2000,
   /** Default idempotency TTL (6 hours) */
   IDEMPOTENCY_TTL_MS: 6 * 60 * 60 * 1000,
+  /** Default lease for keys in the 'processing' state (5 minutes) */
+  IDEMPOTENCY_LEASE_MS: 5 * 60 * 1000,
+  /** Default number of log records before the file store considers compaction */
+  FILE_STORE_COMPACTION_THRESHOLD: 1000,
+  /** Default local cache TTL for the tiered store (1 minute) */
+  TIERED_LOCAL_TTL_MS: 60 * 1000,
+  /** Default local cache size for the tiered store */
+  TIERED_LOCAL_MAX_ENTRIES: 10000,
+  /** Default store probe interval while a consumer is paused (5 seconds) */
+  IDEMPOTENCY_RECOVERY_INTERVAL_MS: 5000,
+  /** Default minimum payload size for compression (1KB) */
+  COMPRESSION_THRESHOLD_BYTES: 1024,
+  /** Default cap on decompressed payload size (64MB), against decompression bombs */
+  MAX_DECOMPRESSED_BYTES: 64 * 1024 * 1024,
+  /** Default minimum payload size for claim-check offloading (8MB, below the 10MB message limit) */
+  CLAIM_CHECK_THRESHOLD_BYTES: 8 * 1024 * 1024,
   /** Default max concurrent messages */
   MAX_CONCURRENCY: 100,
   /** Default acknowledgment deadline */
@@ -361,6 +994,24 @@ export const Defaults = {
   FLOW_CONTROL_MAX_BYTES: 1024 * 1024 * 10, // 10MB
 } as const;
 
+/**
+ * Limits Pub/Sub enforces on published messages, checked before the first attempt
+ */
+export const PubSubLimits = {
+  /** Max message size: data, attribute keys and values, and ordering key (10MB) */
+  MAX_MESSAGE_BYTES: 10 * 1024 * 1024,
+  /** Max attributes per message */
+  MAX_ATTRIBUTES: 100,
+  /** Max attribute key size in bytes */
+  MAX_ATTRIBUTE_KEY_BYTES: 256,
+  /** Max attribute value size in bytes */
+  MAX_ATTRIBUTE_VALUE_BYTES: 1024,
+  /** Max ordering key size in bytes */
+  MAX_ORDERING_KEY_BYTES: 1024,
+  /** Attribute key prefix reserved by Google */
+  RESERVED_ATTRIBUTE_PREFIX: 'goog',
+} as const;
+
 /**
  * Error codes for consistent error handling
  */
@@ -381,6 +1032,18 @@ export const ErrorCodes = {
   ACK_ERROR: 'ACK_ERROR',
   /** Publisher error */
   PUBLISH_ERROR: 'PUBLISH_ERROR',
+  /** Payload does not match its schema */
+  SCHEMA_ERROR: 'SCHEMA_ERROR',
+  /** Blob store operation failed */
+  BLOB_STORE_ERROR: 'BLOB_STORE_ERROR',
+  /** Payload encryption or decryption failed */
+  ENCRYPTION_ERROR: 'ENCRYPTION_ERROR',
+  /** Message is unsigned or its signature does not verify */
+  SIGNATURE_ERROR: 'SIGNATURE_ERROR',
+  /** Key ID is not known to the key provider */
+  UNKNOWN_KEY: 'UNKNOWN_KEY',
+  /** Message carries an event version the consumer cannot upcast */
+  UNSUPPORTED_VERSION: 'UNSUPPORTED_VERSION',
 } as const;
 
 export type ErrorCode = typeof ErrorCodes[keyof typeof ErrorCodes];
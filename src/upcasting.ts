@@ -0,0 +1,114 @@
+/**
+ * @valianx/pubsub-lite - Event version upcasting
+ */
+
+import type { Message } from '@google-cloud/pubsub';
+import { ErrorCodes, MessageAttributes } from './types.js';
+import type { EventDefinition, Upcaster, Upcasters } from './types.js';
+import { PubSubLiteError, UnsupportedVersionError } from './errors.js';
+
+/**
+ * Brings a decoded payload to the latest version of its event type
+ */
+export type UpcastFunction = (data: unknown, message: Message) => Promise<unknown>;
+
+/**
+ * Validated chain for one event type
+ */
+interface UpcastChain {
+  latest: string;
+  steps: Map<string, Upcaster>;
+}
+
+/**
+ * Compile upcasting chains into a function applied to every decoded payload
+ *
+ * The event type comes from the `type` attribute (falling back to `event.name`) and the
+ * payload version from the `version` attribute. Payloads without a version, or of event
+ * types without a chain, pass through unchanged. A version that is neither the latest
+ * nor the start of a step raises `UnsupportedVersionError`.
+ *
+ * The latest version of `event` is its own version; for other event types it is the
+ * end of the chain. Chains are checked up front: duplicate steps, cycles and branches
+ * that never reach the latest version throw `INVALID_CONFIG`.
+ *
+ * @example
+ * ```typescript
+ * const upcast = createUpcaster({
+ *   'order.created': [{ from: '1', to: '2', upcast: (v1: OrderV1): OrderV2 => ({ ...v1, currency: 'USD' }) }],
+ * });
+ * const order = await upcast(decoded, message);
+ * ```
+ */
+export function createUpcaster(upcasters: Upcasters, event?: EventDefinition): UpcastFunction {
+  const chains = new Map<string, UpcastChain>();
+  for (const [eventType, steps] of Object.entries(upcasters)) {
+    const latest = eventType === event?.name ? event.version : undefined;
+    if (steps.length === 0 && latest === undefined) continue;
+    chains.set(eventType, compileChain(eventType, steps, latest));
+  }
+  // The declared event rejects other versions even without upcasters
+  if (event && !chains.has(event.name)) {
+    chains.set(event.name, { latest: event.version, steps: new Map() });
+  }
+
+  return async (data, message) => {
+    const eventType = message.attributes?.[MessageAttributes.TYPE] ?? event?.name;
+    const chain = eventType === undefined ? undefined : chains.get(eventType);
+    let version = message.attributes?.[MessageAttributes.VERSION];
+    if (!chain || version === undefined) return data;
+
+    let payload = data;
+    while (version !== chain.latest) {
+      const step = chain.steps.get(version);
+      if (!step) {
+        throw new UnsupportedVersionError(eventType!, version, chain.latest);
+      }
+      payload = await step.upcast(payload, message);
+      version = step.to;
+    }
+    return payload;
+  };
+}
+
+/**
+ * Index the steps of one event type and check that every step leads to the latest version
+ */
+function compileChain(eventType: string, upcasters: Upcaster[], declaredLatest?: string): UpcastChain {
+  const invalid = (reason: string): PubSubLiteError =>
+    new PubSubLiteError(`Invalid upcasters for event '${eventType}': ${reason}`, ErrorCodes.INVALID_CONFIG);
+
+  const steps = new Map<string, Upcaster>();
+  for (const step of upcasters) {
+    if (step.from === step.to) throw invalid(`step from version '${step.from}' upcasts to itself`);
+    if (steps.has(step.from)) throw invalid(`more than one step from version '${step.from}'`);
+    steps.set(step.from, step);
+  }
+
+  let latest = declaredLatest;
+  if (latest === undefined) {
+    const ends = [...new Set(upcasters.map((step) => step.to))].filter((version) => !steps.has(version));
+    if (ends.length !== 1) {
+      throw invalid(ends.length === 0
+        ? 'the chain has no latest version'
+        : `the chain ends at several versions (${ends.map((version) => `'${version}'`).join(', ')})`);
+    }
+    latest = ends[0]!;
+  } else if (steps.has(latest)) {
+    throw invalid(`step from the latest version '${latest}'`);
+  }
+
+  for (const start of steps.keys()) {
+    const visited = new Set<string>();
+    let version = start;
+    while (version !== latest) {
+      if (visited.has(version)) throw invalid(`cycle through version '${version}'`);
+      visited.add(version);
+      const step = steps.get(version);
+      if (!step) throw invalid(`version '${start}' stops at '${version}' instead of '${latest}'`);
+      version = step.to;
+    }
+  }
+
+  return { latest, steps };
+}
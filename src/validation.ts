@@ -0,0 +1,267 @@
+/**
+ * @valianx/pubsub-lite - Payload validation
+ */
+
+import type { JsonSchema, JsonSchemaType, PayloadValidator, ValidationIssue } from './types.js';
+
+/**
+ * Outcome of running a validator
+ */
+export type ValidationResult =
+  | { valid: true; value: unknown }
+  | { valid: false; issues: ValidationIssue[] };
+
+/**
+ * Run any supported validator against a payload
+ *
+ * On success, `value` is the validator's output when it produces one (zod `parse`
+ * applies defaults and transforms) and the original payload otherwise.
+ *
+ * @example
+ * ```typescript
+ * const result = await validatePayload({ type: 'object', required: ['id'] }, data);
+ * if (!result.valid) console.log(result.issues); // [{ path: 'id', message: 'is required' }]
+ * ```
+ */
+export async function validatePayload(validator: PayloadValidator, data: unknown): Promise<ValidationResult> {
+  if (typeof validator === 'function') {
+    return runFunctionValidator(validator, data);
+  }
+
+  // Method contracts are detected structurally, so any library shape works without adapters
+  const contract = validator as {
+    safeParse?: (data: unknown) => { success: boolean; data?: unknown; error?: unknown };
+    parse?: (data: unknown) => unknown;
+    validate?: (data: unknown) => unknown;
+  };
+
+  if (typeof contract.safeParse === 'function') {
+    const result = await contract.safeParse(data);
+    return result.success ? { valid: true, value: result.data } : { valid: false, issues: issuesFromError(result.error) };
+  }
+
+  if (typeof contract.parse === 'function') {
+    try {
+      return { valid: true, value: await contract.parse(data) };
+    } catch (error) {
+      return { valid: false, issues: issuesFromError(error) };
+    }
+  }
+
+  if (typeof contract.validate === 'function') {
+    try {
+      const result: unknown = await contract.validate(data);
+      if (result === false) {
+        return { valid: false, issues: [{ path: '', message: 'Validation failed' }] };
+      }
+      // Joi-style results report failures in `error` instead of throwing
+      if (typeof result === 'object' && result !== null && 'error' in result && result.error) {
+        return { valid: false, issues: issuesFromError(result.error) };
+      }
+      return { valid: true, value: data };
+    } catch (error) {
+      return { valid: false, issues: issuesFromError(error) };
+    }
+  }
+
+  const issues: ValidationIssue[] = [];
+  validateJsonSchema(validator as JsonSchema, data, [], issues);
+  return issues.length === 0 ? { valid: true, value: data } : { valid: false, issues };
+}
+
+/**
+ * Whether a validator is a JSON Schema definition rather than a function or library schema
+ */
+export function isJsonSchema(validator: PayloadValidator): validator is JsonSchema {
+  if (typeof validator !== 'object' || validator === null) return false;
+  const contract = validator as Record<string, unknown>;
+  return !['safeParse', 'parse', 'validate'].some((method) => typeof contract[method] === 'function');
+}
+
+/**
+ * Run a plain function validator; compiled Ajv validators expose failures on `.errors`
+ */
+async function runFunctionValidator(
+  validator: (data: unknown) => unknown,
+  data: unknown
+): Promise<ValidationResult> {
+  let result: unknown;
+  try {
+    result = await validator(data);
+  } catch (error) {
+    return { valid: false, issues: issuesFromError(error) };
+  }
+
+  if (Array.isArray(result)) {
+    return result.length === 0 ? { valid: true, value: data } : { valid: false, issues: result as ValidationIssue[] };
+  }
+  if (result === false) {
+    const errors = (validator as { errors?: unknown }).errors;
+    const issues = Array.isArray(errors) && errors.length > 0
+      ? errors.map(toIssue)
+      : [{ path: '', message: 'Validation failed' }];
+    return { valid: false, issues };
+  }
+  return { valid: true, value: data };
+}
+
+/**
+ * Extract issues from the error shapes of common libraries (zod, Joi, yup, Ajv)
+ */
+function issuesFromError(error: unknown): ValidationIssue[] {
+  if (typeof error === 'object' && error !== null) {
+    const { issues, details, inner, errors } = error as Record<string, unknown>;
+    for (const list of [issues, details, inner, errors]) {
+      if (Array.isArray(list) && list.length > 0 && typeof list[0] === 'object') {
+        return list.map(toIssue);
+      }
+    }
+  }
+  const message = error instanceof Error ? error.message : String(error ?? 'Validation failed');
+  return [{ path: '', message }];
+}
+
+/**
+ * Normalize a library-specific issue to `{ path, message }`
+ */
+function toIssue(entry: unknown): ValidationIssue {
+  const { path, instancePath, message } = (entry ?? {}) as Record<string, unknown>;
+  let issuePath = '';
+  if (Array.isArray(path)) {
+    issuePath = path.join('.');
+  } else if (typeof path === 'string') {
+    issuePath = path;
+  } else if (typeof instancePath === 'string') {
+    // Ajv reports JSON pointers: '/items/0/sku' -> 'items.0.sku'
+    issuePath = instancePath.split('/').filter(Boolean).join('.');
+  }
+  return { path: issuePath, message: typeof message === 'string' ? message : 'is invalid' };
+}
+
+/**
+ * Validate a value against the supported JSON Schema keywords, collecting every issue
+ */
+function validateJsonSchema(schema: JsonSchema, value: unknown, path: string[], issues: ValidationIssue[]): void {
+  const fail = (message: string, at: string[] = path): void => {
+    issues.push({ path: at.join('.'), message });
+  };
+
+  if (schema.type !== undefined) {
+    const types = Array.isArray(schema.type) ? schema.type : [schema.type];
+    if (!types.some((type) => matchesType(type, value))) {
+      fail(`must be ${types.join(' or ')}`);
+      return;
+    }
+  }
+
+  if (schema.enum !== undefined && !schema.enum.some((option) => deepEqual(option, value))) {
+    fail(`must be one of ${JSON.stringify(schema.enum)}`);
+  }
+  if ('const' in schema && !deepEqual(schema.const, value)) {
+    fail(`must be ${JSON.stringify(schema.const)}`);
+  }
+
+  if (typeof value === 'number') {
+    if (schema.minimum !== undefined && value < schema.minimum) fail(`must be >= ${schema.minimum}`);
+    if (schema.maximum !== undefined && value > schema.maximum) fail(`must be <= ${schema.maximum}`);
+    if (schema.exclusiveMinimum !== undefined && value <= schema.exclusiveMinimum) {
+      fail(`must be > ${schema.exclusiveMinimum}`);
+    }
+    if (schema.exclusiveMaximum !== undefined && value >= schema.exclusiveMaximum) {
+      fail(`must be < ${schema.exclusiveMaximum}`);
+    }
+  }
+
+  if (typeof value === 'string') {
+    // Length counts code points, as JSON Schema requires
+    const length = [...value].length;
+    if (schema.minLength !== undefined && length < schema.minLength) {
+      fail(`must be at least ${schema.minLength} characters`);
+    }
+    if (schema.maxLength !== undefined && length > schema.maxLength) {
+      fail(`must be at most ${schema.maxLength} characters`);
+    }
+    if (schema.pattern !== undefined && !new RegExp(schema.pattern, 'u').test(value)) {
+      fail(`must match pattern ${schema.pattern}`);
+    }
+  }
+
+  if (Array.isArray(value)) {
+    if (schema.minItems !== undefined && value.length < schema.minItems) {
+      fail(`must have at least ${schema.minItems} items`);
+    }
+    if (schema.maxItems !== undefined && value.length > schema.maxItems) {
+      fail(`must have at most ${schema.maxItems} items`);
+    }
+    if (schema.items !== undefined) {
+      const itemSchema = schema.items;
+      value.forEach((item, index) => validateJsonSchema(itemSchema, item, [...path, String(index)], issues));
+    }
+  }
+
+  if (isPlainObject(value)) {
+    for (const key of schema.required ?? []) {
+      if (!(key in value)) fail('is required', [...path, key]);
+    }
+    for (const [key, propertyValue] of Object.entries(value)) {
+      const propertySchema = schema.properties?.[key];
+      if (propertySchema !== undefined) {
+        validateJsonSchema(propertySchema, propertyValue, [...path, key], issues);
+      } else if (schema.additionalProperties === false) {
+        fail('is not allowed', [...path, key]);
+      } else if (typeof schema.additionalProperties === 'object') {
+        validateJsonSchema(schema.additionalProperties, propertyValue, [...path, key], issues);
+      }
+    }
+  }
+
+  for (const subschema of schema.allOf ?? []) {
+    validateJsonSchema(subschema, value, path, issues);
+  }
+  if (schema.anyOf !== undefined) {
+    const matches = schema.anyOf.filter((subschema) => isValidAgainst(subschema, value)).length;
+    if (matches === 0) fail('must match at least one schema in anyOf');
+  }
+  if (schema.oneOf !== undefined) {
+    const matches = schema.oneOf.filter((subschema) => isValidAgainst(subschema, value)).length;
+    if (matches !== 1) fail(`must match exactly one schema in oneOf (matched ${matches})`);
+  }
+}
+
+function isValidAgainst(schema: JsonSchema, value: unknown): boolean {
+  const issues: ValidationIssue[] = [];
+  validateJsonSchema(schema, value, [], issues);
+  return issues.length === 0;
+}
+
+function matchesType(type: JsonSchemaType, value: unknown): boolean {
+  switch (type) {
+    case 'null':
+      return value === null;
+    case 'array':
+      return Array.isArray(value);
+    case 'object':
+      return isPlainObject(value);
+    case 'integer':
+      return Number.isInteger(value);
+    case 'number':
+      return typeof value === 'number' && Number.isFinite(value);
+    default:
+      return typeof value === type;
+  }
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function deepEqual(a: unknown, b: unknown): boolean {
+  if (a === b) return true;
+  if (typeof a !== 'object' || typeof b !== 'object' || a === null || b === null) return false;
+  if (Array.isArray(a) !== Array.isArray(b)) return false;
+  const aKeys = Object.keys(a);
+  const bKeys = Object.keys(b);
+  return aKeys.length === bKeys.length && aKeys.every((key) =>
+    deepEqual((a as Record<string, unknown>)[key], (b as Record<string, unknown>)[key])
+  );
+}
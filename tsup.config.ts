@@ -1,7 +1,10 @@
 import { defineConfig } from 'tsup';
 
 export default defineConfig({
-  entry: ['src/index.ts'],
+  entry: {
+    index: 'src/index.ts',
+    asyncapi: 'src/cli/asyncapi-bin.ts'
+  },
   format: ['cjs', 'esm'],
   dts: true,
   splitting: false,
@@ -13,7 +16,9 @@ export default defineConfig({
   external: [
     '@google-cloud/pubsub',
     'ioredis',
-    'redis'
+    'redis',
+    'avsc',
+    'protobufjs'
   ],
   banner: {
     js: '// @valianx/pubsub-lite - TypeScript wrapper for Google Cloud Pub/Sub'